@@ -1,7 +1,6 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import type * as cocoSsd from '@tensorflow-models/coco-ssd';
 import { 
   Camera, 
   Square, 
@@ -16,11 +15,32 @@ import {
   Download,
   Upload,
   Clock,
-  Circle
+  Circle,
+  ArrowLeftRight,
+  PenLine,
+  Hexagon,
+  Timer,
+  Database,
+  FileText,
+  FileJson,
+  Printer,
+  Bell,
+  Brain,
+  Grid3x3,
+  Shapes,
+  Film,
+  ShieldCheck,
+  ShieldOff,
+  Flame,
+  Waypoints,
+  Cctv,
+  Server,
+  SlidersHorizontal,
+  Siren
 } from 'lucide-react';
 import { 
-  LineChart, 
-  Line, 
+  BarChart,
+  Bar,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -32,47 +52,218 @@ import {
   Screenshot, 
   LogEntry, 
   Stats, 
-  DetectionSpeed 
+  DetectionSpeed,
+  Tripwire,
+  LineCounts,
+  Point,
+  Zone,
+  CameraFeed,
+  CameraStats,
+  CountSample,
+  SessionRecord,
+  AlertRule,
+  AlertNotification,
+  NotificationChannel,
+  DeliveryRecord,
+  DetectorConfig,
+  ScheduleSettings,
+  TileRegion,
+  ClassTarget,
+  ClipSettings,
+  NetworkSourceSettings,
+  LocalApiSettings,
+  ProfileSettings,
+  ProfileStore,
+  PrivacySettings,
+  Incident
 } from './types';
 import { playAlertSound } from './utils/audio';
+import { createDetectionScheduler, DetectionScheduler, SchedulerMetrics, SPEED_PRESETS } from './utils/scheduler';
+import { createWorkerDetector, WorkerDetector } from './utils/detectionWorker';
+import { DEFAULT_DETECTOR_CONFIG, loadDetectorConfig, saveDetectorConfig, modelLabel } from './utils/models';
+import { listVideoDevices, deviceLabel } from './utils/devices';
+import { saveSession, saveScreenshot, saveEventClip, blobToDataUrl, downloadBlob } from './utils/sessions';
+import { createClipRecorder, loadClipSettings, saveClipSettings } from './utils/clips';
+import { createNetworkStream, loadNetworkSource, NetworkStream, saveNetworkSource, streamLabel } from './utils/streams';
+import { createLocalApiLink, loadLocalApiSettings, LocalApiStatus, saveLocalApiSettings } from './utils/localApi';
+import { activeProfile, buildProfilesDocument, importProfiles, loadProfileStore, parseProfilesDocument, saveProfileStore, scheduledSwitch } from './utils/profiles';
+import { formatTimestamp } from './utils/format';
+import { ActiveAlert, createIncidentLog, durationMs, loadOperatorName, responseMs, saveOperatorName } from './utils/incidents';
+import { createPrivacyMask, loadPrivacySettings, savePrivacySettings, runPrivacyLoop, verifyPin } from './utils/privacy';
+import { seriesToCsv, logsToCsv, incidentsToCsv, buildSessionBundle, buildReportHtml, openPrintableReport } from './utils/export';
+import { describeCondition, loadRules, saveRules } from './utils/rules';
+import { createNotifier, loadChannels, saveChannels, needsSnapshot } from './utils/notify';
+import { DEFAULT_TILING, Rect, TilingOptions } from './utils/tiling';
+import {
+  PERSON_CLASS,
+  availableClasses,
+  classColor,
+  classesInAlert,
+  formatCounts,
+  loadClassTargets,
+  saveClassTargets
+} from './utils/classes';
+import { trackColor } from './utils/tracker';
+import { createHeatmap, drawFlow, drawHeatmap } from './utils/heatmap';
+import { compactHistory, createAggregator, TimeRange } from './utils/aggregation';
+import { forecastCounts, ForecastPoint, predictBreach } from './utils/forecast';
+import { zonesInAlert, ZONE_COLORS } from './utils/zones';
+import { dwellHistogram, formatElapsed, DwellState } from './utils/dwell';
+import { createCounter, CounterFrame, describeEvent } from './utils/counter';
+import OverlayEditor, { EditorMode } from './components/OverlayEditor';
+import TripwireList from './components/TripwireList';
+import ZoneList from './components/ZoneList';
+import TileRegionList from './components/TileRegionList';
+import ClassList from './components/ClassList';
+import CameraGrid from './components/CameraGrid';
+import BatchAnalysis from './components/BatchAnalysis';
+import HistoryPanel from './components/HistoryPanel';
+import EventsPanel from './components/EventsPanel';
+import PrivacyPanel from './components/PrivacyPanel';
+import NetworkSourcePanel from './components/NetworkSourcePanel';
+import LocalApiPanel from './components/LocalApiPanel';
+import ProfilesPanel from './components/ProfilesPanel';
+import IncidentsPanel from './components/IncidentsPanel';
+import IncidentActions from './components/IncidentActions';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import RulesEditor from './components/RulesEditor';
+import NotificationSettings from './components/NotificationSettings';
+import ModelSettings from './components/ModelSettings';
+
+const SESSION_AUTOSAVE_MS = 15000;
+const AUTO_RECORD_MS = 30000;
+// The raw-feed view locks itself again after this long
+const ADMIN_UNLOCK_MS = 5 * 60 * 1000;
 
 const App: React.FC = () => {
   // State
-  const [model, setModel] = useState<cocoSsd.ObjectDetection | null>(null);
+  const [scheduler, setScheduler] = useState<DetectionScheduler | null>(null);
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(loadDetectorConfig);
+  const [activeBackend, setActiveBackend] = useState('');
+  const [modelLoading, setModelLoading] = useState(true);
   const [isSystemReady, setIsSystemReady] = useState(false);
   const [isMonitoring, setIsMonitoring] = useState(false);
+  // Network camera still waiting for its first frame, by label
+  const [connectingTo, setConnectingTo] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [activeTab, setActiveTab] = useState<'stats' | 'logs' | 'gallery'>('stats');
+  const [activeTab, setActiveTab] = useState<'stats' | 'logs' | 'gallery' | 'events' | 'history' | 'incidents'>('stats');
 
   // Stats State
   const [stats, setStats] = useState<Stats>({
-    currentCount: 0,
-    peakCount: 0,
+    currentCounts: { [PERSON_CLASS]: 0 },
+    peakCounts: { [PERSON_CLASS]: 0 },
     avgCount: 0,
     totalDetections: 0,
     sessionStartTime: null
   });
-  const [chartData, setChartData] = useState<{ time: string, count: number }[]>([]);
+  const [timeRange, setTimeRange] = useState<TimeRange>('5m');
+  // Bumped once a second so the trend chart re-reads the aggregator
+  const [analyticsTick, setAnalyticsTick] = useState(0);
+  const [forecastMinutes, setForecastMinutes] = useState(15);
+  const [forecast, setForecast] = useState<ForecastPoint[]>([]);
+  // Epoch ms at which the forecast first reaches the threshold, while still below it
+  const [predictedBreachAt, setPredictedBreachAt] = useState<number | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [screenshots, setScreenshots] = useState<Screenshot[]>([]);
   const [sessionDuration, setSessionDuration] = useState('00:00');
   const [fps, setFps] = useState(0);
+  const [schedulerMetrics, setSchedulerMetrics] = useState<SchedulerMetrics | null>(null);
+  const [frameSize, setFrameSize] = useState({ width: 1280, height: 720 });
+  const [lineCounts, setLineCounts] = useState<Record<string, LineCounts>>({});
+  const [zoneCounts, setZoneCounts] = useState<Record<string, number>>({});
+  const [dwellDurations, setDwellDurations] = useState<number[]>([]);
+  const [cameraStats, setCameraStats] = useState<Record<string, CameraStats>>({});
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [eventsVersion, setEventsVersion] = useState(0);
+  const [reportShotIds, setReportShotIds] = useState<string[]>([]);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [operatorName, setOperatorName] = useState(loadOperatorName);
+
+  // Configuration; the Detection Parameters start from the active profile
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore);
+  const [threshold, setThreshold] = useState(() => activeProfile(profileStore).settings.threshold);
+  const [confidence, setConfidence] = useState(() => activeProfile(profileStore).settings.confidence);
+  const [detectionSpeed, setDetectionSpeed] = useState<DetectionSpeed>(() => activeProfile(profileStore).settings.detectionSpeed);
+  const [schedule, setSchedule] = useState<ScheduleSettings>(() => activeProfile(profileStore).settings.schedule);
+  const [soundEnabled, setSoundEnabled] = useState(() => activeProfile(profileStore).settings.soundEnabled);
+  const [tripwires, setTripwires] = useState<Tripwire[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [tileRegions, setTileRegions] = useState<TileRegion[]>([]);
+  const [classTargets, setClassTargets] = useState<ClassTarget[]>(loadClassTargets);
+  const [dwellLimit, setDwellLimit] = useState(() => activeProfile(profileStore).settings.dwellLimit);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadRules);
+  const [activeRuleIds, setActiveRuleIds] = useState<string[]>([]);
+  const [notificationChannels, setNotificationChannels] = useState<NotificationChannel[]>(loadChannels);
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
+  const [clipSettings, setClipSettings] = useState<ClipSettings>(loadClipSettings);
+  const [networkSource, setNetworkSource] = useState<NetworkSourceSettings>(loadNetworkSource);
+  const [localApi, setLocalApi] = useState<LocalApiSettings>(loadLocalApiSettings);
+  const [localApiStatus, setLocalApiStatus] = useState<LocalApiStatus>('connecting');
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  const [adminUnlocked, setAdminUnlocked] = useState(false);
+  const [editorMode, setEditorMode] = useState<EditorMode>('none');
+  const [movementView, setMovementView] = useState<'off' | 'heatmap' | 'flow'>('off');
 
-  // Configuration
-  const [threshold, setThreshold] = useState(3);
-  const [confidence, setConfidence] = useState(0.5);
-  const [detectionSpeed, setDetectionSpeed] = useState<DetectionSpeed>(DetectionSpeed.NORMAL);
-  const [soundEnabled, setSoundEnabled] = useState(true);
+  // Cameras
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [primaryDeviceId, setPrimaryDeviceId] = useState('');
+  const [cameraFeeds, setCameraFeeds] = useState<CameraFeed[]>([]);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The masked picture shown, captured and recorded while privacy mode is on
+  const privacyCanvasRef = useRef<HTMLCanvasElement>(null);
+  const movementCanvasRef = useRef<HTMLCanvasElement>(null);
+  const privacyMaskRef = useRef(createPrivacyMask());
+  const privacyRef = useRef(privacy);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
-  const detectionLoopRef = useRef<number | null>(null);
+  const primaryHandlerRef = useRef<(predictions: cocoSsd.DetectedObject[], reused: boolean) => void>(() => {});
+  const tilingRef = useRef<TilingOptions | null>(null);
   const frameCountRef = useRef(0);
   const lastFpsTimeRef = useRef(Date.now());
-  const historyRef = useRef<number[]>([]);
+  const historyRef = useRef<CountSample[]>([]);
+  const counterRef = useRef(createCounter());
+  const heatmapRef = useRef(createHeatmap());
+  const aggregatorRef = useRef(createAggregator());
+  const lastCompactRef = useRef(Date.now());
+  const forecastAlertRef = useRef(false);
+  const detectorRef = useRef<WorkerDetector | null>(null);
+  const clipRecorderRef = useRef(createClipRecorder());
+  const networkStreamRef = useRef<NetworkStream | null>(null);
+  const localApiRef = useRef(createLocalApiLink(
+    change => {
+      if (change.threshold !== undefined) {
+        setThreshold(change.threshold);
+        addLog(`Threshold set to ${change.threshold} through the local API.`, "info");
+      }
+      if (change.confidence !== undefined) {
+        setConfidence(change.confidence);
+        addLog(`Confidence set to ${Math.round(change.confidence * 100)}% through the local API.`, "info");
+      }
+    },
+    (status, detail) => {
+      setLocalApiStatus(status);
+      if (status === 'connected') addLog(`Publishing counts to the local API at ${detail}.`, "success");
+      else if (status === 'offline') addLog(`Local API: ${detail}.`, "warning");
+    }
+  ));
+  // Delivery updates reuse the record id, so replace in place instead of appending
+  const notifierRef = useRef(createNotifier(record => setDeliveries(prev =>
+    prev.some(d => d.id === record.id)
+      ? prev.map(d => (d.id === record.id ? record : d))
+      : [record, ...prev].slice(0, 50)
+  )));
+  const sessionRef = useRef<{ id: string; source: string; startTime: number } | null>(null);
+  const sessionLogsRef = useRef<LogEntry[]>([]);
+  const persistSessionRef = useRef<(endTime: number | null) => void>(() => {});
+  // The scheduled profile switch last applied, so picking a profile by hand holds until the next one
+  const lastProfileSwitchRef = useRef<string | null>(null);
+  const scheduledProfileRef = useRef<(profileId: string, start: string) => void>(() => {});
+  const lastSessionRef = useRef<SessionRecord | null>(null);
+  const incidentLogRef = useRef(createIncidentLog());
+  const syncIncidentsRef = useRef<() => void>(() => {});
 
   // Logger
   const addLog = useCallback((message: string, type: LogEntry['type'] = 'info') => {
@@ -83,25 +274,170 @@ const App: React.FC = () => {
       type
     };
     setLogs(prev => [entry, ...prev].slice(0, 100));
+    if (sessionRef.current) sessionLogsRef.current.push(entry);
+    localApiRef.current.log(entry);
   }, []);
 
   // Initialize Model
   useEffect(() => {
+    const detector = createWorkerDetector();
+    const detectionScheduler = createDetectionScheduler(detector);
+    const config = loadDetectorConfig();
+    let disposed = false;
+    detectorRef.current = detector;
+
     const loadModel = async () => {
       try {
-        await tf.ready();
-        const loadedModel = await cocoSsd.load();
-        setModel(loadedModel);
+        let result;
+        try {
+          result = await detector.load(config);
+        } catch (err) {
+          // A custom model whose cache was cleared can't be restored; fall back to the default
+          if (disposed || config.model === DEFAULT_DETECTOR_CONFIG.model) throw err;
+          addLog(`${modelLabel(config)} unavailable (${(err as Error).message}). Using ${modelLabel(DEFAULT_DETECTOR_CONFIG)}.`, "warning");
+          result = await detector.load(DEFAULT_DETECTOR_CONFIG);
+          setDetectorConfig(DEFAULT_DETECTOR_CONFIG);
+        }
+        if (disposed) return;
+        detectionScheduler.start();
+        setScheduler(detectionScheduler);
+        setActiveBackend(result.backend);
         setIsSystemReady(true);
-        addLog("Neural network initialized and ready.", "success");
+        addLog(`Neural network initialized in a background worker (${result.backend}${result.cached ? ', cached model' : ''}).`, "success");
       } catch (err) {
+        if (disposed) return;
         console.error("Model loading failed:", err);
         addLog("Failed to initialize detection engine.", "error");
+      } finally {
+        if (!disposed) setModelLoading(false);
       }
     };
     loadModel();
+    return () => {
+      disposed = true;
+      detectionScheduler.stop();
+      detector.terminate();
+      detectorRef.current = null;
+    };
   }, [addLog]);
 
+  useEffect(() => {
+    saveDetectorConfig(detectorConfig);
+  }, [detectorConfig]);
+
+  // Frames keep flowing while the worker swaps models; it simply holds them until the new one is ready
+  const handleModelApply = async (config: DetectorConfig, files?: File[]) => {
+    const detector = detectorRef.current;
+    if (!detector) return;
+    setModelLoading(true);
+    try {
+      const result = await detector.load(config, files);
+      setDetectorConfig(config);
+      setActiveBackend(result.backend);
+      addLog(`Switched to ${modelLabel(config)} on ${result.backend}${result.cached ? ' (cached)' : ''}.`, "success");
+    } catch (err) {
+      addLog(`Could not load ${modelLabel(config)}: ${(err as Error).message}`, "error");
+      // The worker dropped the old model before loading; put it back
+      detector.load(detectorConfig).then(r => setActiveBackend(r.backend)).catch(() => undefined);
+    } finally {
+      setModelLoading(false);
+    }
+  };
+
+  // Keep the camera list current as devices are plugged in or permission is granted
+  useEffect(() => {
+    const refresh = () => listVideoDevices().then(setDevices).catch(() => setDevices([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  useEffect(() => {
+    saveRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveChannels(notificationChannels);
+  }, [notificationChannels]);
+
+  useEffect(() => {
+    saveClassTargets(classTargets);
+  }, [classTargets]);
+
+  useEffect(() => {
+    saveNetworkSource(networkSource);
+  }, [networkSource]);
+
+  useEffect(() => {
+    saveLocalApiSettings(localApi);
+  }, [localApi]);
+
+  useEffect(() => {
+    saveOperatorName(operatorName);
+  }, [operatorName]);
+
+  useEffect(() => {
+    if (!localApi.enabled) return;
+    const link = localApiRef.current;
+    // Lets typing in the address settle before connecting
+    const timer = setTimeout(() => link.connect(localApi.url), 800);
+    return () => {
+      clearTimeout(timer);
+      link.disconnect();
+    };
+  }, [localApi.enabled, localApi.url]);
+
+  // Counts are pushed from processDetections; this covers settings changes and stopping
+  useEffect(() => {
+    localApiRef.current.update({
+      monitoring: isMonitoring,
+      threshold,
+      confidence,
+      ...(isMonitoring ? { source: sessionRef.current?.source ?? null } : { alerting: false, alerts: [] })
+    });
+  }, [isMonitoring, threshold, confidence]);
+
+  useEffect(() => {
+    saveClipSettings(clipSettings);
+    clipRecorderRef.current.setSettings(clipSettings);
+  }, [clipSettings]);
+
+  useEffect(() => {
+    savePrivacySettings(privacy);
+  }, [privacy]);
+
+  useEffect(() => {
+    if (!adminUnlocked) return;
+    const timeout = setTimeout(() => {
+      setAdminUnlocked(false);
+      addLog("Admin raw view locked after inactivity.", "info");
+    }, ADMIN_UNLOCK_MS);
+    return () => clearTimeout(timeout);
+  }, [adminUnlocked, addLog]);
+
+  // Paints the masked feed whenever privacy mode is on, whether or not an admin is viewing raw
+  useEffect(() => {
+    if (!isMonitoring || !privacy.enabled || !videoRef.current || !privacyCanvasRef.current) return;
+    return runPrivacyLoop(privacyCanvasRef.current, videoRef.current, privacyMaskRef.current, () => privacyRef.current);
+  }, [isMonitoring, privacy.enabled]);
+
+  // What captures and recordings are drawn from: never the raw video while privacy mode is on
+  const feedFrame = useCallback((): CanvasImageSource =>
+    privacyRef.current.enabled && privacyCanvasRef.current ? privacyCanvasRef.current : videoRef.current!, []);
+
+  // The pre-event buffer runs for as long as a feed is being monitored
+  useEffect(() => {
+    const recorder = clipRecorderRef.current;
+    if (!isMonitoring || !clipSettings.enabled || !videoRef.current || !canvasRef.current) return;
+    recorder.start(videoRef.current, canvasRef.current, feedFrame);
+    return () => recorder.stop();
+  }, [isMonitoring, clipSettings.enabled, feedFrame]);
+
+  useEffect(() => {
+    const notifier = notifierRef.current;
+    return () => notifier.dispose();
+  }, []);
+
   // Session timer
   useEffect(() => {
     let interval: any;
@@ -117,7 +453,7 @@ const App: React.FC = () => {
   }, [isMonitoring, stats.sessionStartTime]);
 
   // Render detections
-  const renderDetections = useCallback((detections: Detection[]) => {
+  const renderDetections = useCallback((detections: Detection[], dwell: Map<number, DwellState>, targets: ClassTarget[]) => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
     if (!canvas || !video) return;
@@ -132,16 +468,47 @@ const App: React.FC = () => {
     detections.forEach(detection => {
       const [x, y, width, height] = detection.bbox;
       const score = Math.round(detection.score * 100);
+      const trackId = detection.trackId;
+      const loitering = trackId !== undefined ? dwell.get(trackId) : undefined;
+      const isLoitering = loitering?.violating ?? false;
+      const isPerson = detection.class === PERSON_CLASS;
+      // People get a colour per track so they can be told apart; other classes use their class colour
+      const color = isLoitering ? '#ef4444' : isPerson && trackId !== undefined ? trackColor(trackId) : classColor(detection.class, targets);
+
+      // Motion trail (foot points of the track)
+      if (isPerson && trackId !== undefined) {
+        const trail = counterRef.current.trail(trackId);
+        if (trail.length > 1) {
+          ctx.strokeStyle = trackColor(trackId, 0.6);
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          trail.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+          ctx.stroke();
+        }
+      }
 
       // Bounding box
-      ctx.strokeStyle = '#10b981'; // emerald-500
-      ctx.lineWidth = 2;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = isLoitering ? 4 : 2;
       ctx.strokeRect(x, y, width, height);
 
+      // Loitering highlight with elapsed time
+      if (isLoitering && loitering) {
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.15)';
+        ctx.fillRect(x, y, width, height);
+        const timer = `LOITERING ${formatElapsed(loitering.seconds)}`;
+        const timerWidth = ctx.measureText(timer).width;
+        ctx.fillStyle = '#ef4444';
+        ctx.fillRect(x, y + height, timerWidth + 10, 22);
+        ctx.fillStyle = '#fff';
+        ctx.fillText(timer, x + 5, y + height + 4);
+      }
+
       // Label background
-      const label = `PERSON ${score}%`;
+      const name = detection.class.toUpperCase();
+      const label = trackId !== undefined ? `#${trackId} ${name} ${score}%` : `${name} ${score}%`;
       const textWidth = ctx.measureText(label).width;
-      ctx.fillStyle = 'rgba(16, 185, 129, 0.9)';
+      ctx.fillStyle = color;
       ctx.fillRect(x, y - 22, textWidth + 10, 22);
 
       // Label text
@@ -150,65 +517,308 @@ const App: React.FC = () => {
     });
   }, []);
 
-  // Detection loop
-  const runDetection = useCallback(async () => {
-    if (!model || !isMonitoring || !videoRef.current) return;
+  // Current video frame with the detection overlay drawn on top
+  const composeFrame = useCallback(() => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const shotCanvas = document.createElement('canvas');
+    shotCanvas.width = videoRef.current.videoWidth;
+    shotCanvas.height = videoRef.current.videoHeight;
+    const ctx = shotCanvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(feedFrame(), 0, 0);
+    ctx.drawImage(canvasRef.current, 0, 0);
+    return shotCanvas;
+  }, [feedFrame]);
 
-    if (videoRef.current.readyState === 4) {
-      try {
-        const predictions = await model.detect(videoRef.current);
-        const people = predictions.filter(p => p.class === 'person' && p.score >= confidence) as unknown as Detection[];
-        const count = people.length;
-
-        // Update stats
-        setStats(prev => ({
-          ...prev,
-          currentCount: count,
-          peakCount: Math.max(prev.peakCount, count),
-          totalDetections: prev.totalDetections + (count > 0 ? 1 : 0)
-        }));
-
-        historyRef.current.push(count);
-        renderDetections(people);
-
-        // Sound alert
-        if (soundEnabled && count >= threshold) {
-          playAlertSound();
+  // Screenshots
+  const captureScreenshot = useCallback((counts: Record<string, number>, reason?: string) => {
+    const shotCanvas = composeFrame();
+    if (shotCanvas) {
+      const timestamp = new Date().toLocaleTimeString();
+      shotCanvas.toBlob(blob => {
+        if (!blob) return;
+        const newShot: Screenshot = {
+          id: Math.random().toString(36).substr(2, 9),
+          url: URL.createObjectURL(blob),
+          blob,
+          timestamp,
+          counts,
+          reason
+        };
+        setScreenshots(prev => [newShot, ...prev]);
+        if (sessionRef.current) {
+          saveScreenshot(sessionRef.current.id, newShot).catch(err => console.warn("Screenshot not persisted:", err));
         }
+      }, 'image/png');
+    }
+  }, [composeFrame]);
 
-        // FPS calculation
-        frameCountRef.current++;
-        const now = Date.now();
-        const delta = now - lastFpsTimeRef.current;
-        if (delta >= 1000) {
-          setFps(Math.round((frameCountRef.current * 1000) / delta));
-          frameCountRef.current = 0;
-          lastFpsTimeRef.current = now;
-
-          // Push to chart every second
-          setChartData(prev => [...prev, { 
-            time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }), 
-            count 
-          }].slice(-30));
-        }
+  // Outbound notifications. Webhook snapshots are JPEG to keep payloads small.
+  const sendNotification = (alert: AlertNotification, channels = notificationChannels) => {
+    const notifier = notifierRef.current;
+    const shotCanvas = needsSnapshot(channels) ? composeFrame() : null;
+    if (!shotCanvas) {
+      notifier.notify(channels, alert);
+      return;
+    }
+    shotCanvas.toBlob(blob => notifier.notify(channels, alert, blob), 'image/jpeg', 0.8);
+  };
 
-      } catch (err) {
-        console.warn("Detection cycle skipped:", err);
+  const handleTestNotification = (channel: NotificationChannel) => {
+    sendNotification({
+      event: 'test',
+      rule: 'Test',
+      message: `Test notification from ${channel.name}.`,
+      count: stats.currentCounts[PERSON_CLASS] ?? 0,
+      threshold,
+      timestamp: new Date().toISOString()
+    }, [{ ...channel, enabled: true }]);
+  };
+
+  // Handles one inference result for the primary feed. Assigned to a ref on every
+  // render so the shared scheduler always calls it with the latest settings.
+  const processDetections = (predictions: cocoSsd.DetectedObject[], reused: boolean) => {
+    if (!isMonitoring) return;
+
+    const now = performance.now();
+    const counterSettings = { confidence, threshold, classTargets, zones, tripwires, dwellLimit, rules: alertRules };
+    const frame: CounterFrame = counterRef.current.process(predictions, counterSettings, now, Date.now());
+    const { tracked, people, count, classCounts, zoneCounts: currentZoneCounts, alertingClasses, alertingZones } = frame;
+    privacyMaskRef.current.update(people);
+    heatmapRef.current.update(people, frameSize.width, frameSize.height, now);
+
+    // Tripwire crossings
+    const crossings = frame.events.flatMap(e => (e.kind === 'crossing' ? [e] : []));
+    if (crossings.length > 0) {
+      setLineCounts(prev => {
+        const next = { ...prev };
+        crossings.forEach(c => {
+          const current = next[c.lineId] ?? { in: 0, out: 0 };
+          next[c.lineId] = { ...current, [c.direction]: current[c.direction] + 1 };
+        });
+        return next;
+      });
+    }
+
+    // Update stats
+    setStats(prev => ({
+      ...prev,
+      currentCounts: classCounts,
+      peakCounts: Object.fromEntries(
+        Object.entries(classCounts).map(([name, n]) => [name, Math.max(prev.peakCounts[name] ?? 0, n)])
+      ),
+      totalDetections: prev.totalDetections + (tracked.length > 0 ? 1 : 0)
+    }));
+    setZoneCounts(currentZoneCounts);
+
+    aggregatorRef.current.add(frame.sample.t, {
+      count,
+      ...Object.fromEntries(Object.entries(currentZoneCounts).map(([id, n]) => [`zone:${id}`, n])),
+      ...Object.fromEntries(classTargets.map(t => [`class:${t.class}`, classCounts[t.class]]))
+    }, threshold);
+    historyRef.current.push(frame.sample);
+    renderDetections(tracked, frame.dwellStates, classTargets);
+
+    // Log and act on what happened this cycle
+    const notifyRule = (rule: AlertRule, event: AlertNotification['event'], message: string) => sendNotification({
+      event,
+      rule: rule.name,
+      message,
+      count,
+      threshold,
+      timestamp: new Date().toISOString()
+    });
+    const loiterers: number[] = [];
+    frame.events.forEach(event => {
+      const { message, type } = describeEvent(event, counterSettings);
+      if (event.kind === 'rule-fired') {
+        const { rule } = event;
+        if (rule.actions.includes('log')) addLog(message, type);
+        if (rule.actions.includes('screenshot')) captureScreenshot(classCounts, rule.name);
+        if (rule.actions.includes('record') && !recordEvent(rule.name, classCounts)) startRecording(AUTO_RECORD_MS);
+        if (rule.actions.includes('notify')) notifyRule(rule, 'alert', message);
+      } else if (event.kind === 'rule-cleared') {
+        if (event.rule.actions.includes('log')) addLog(message, type);
+        if (event.rule.actions.includes('notify')) notifyRule(event.rule, 'cleared', `${event.rule.name} cleared (count ${count}).`);
+      } else {
+        addLog(message, type);
+        if (event.kind === 'loitering') loiterers.push(event.trackId);
+      }
+    });
+    if (loiterers.length > 0) {
+      captureScreenshot(classCounts, `Loitering #${loiterers.join(', #')}`);
+    }
+    const activeIds = frame.activeRules.map(r => r.id);
+    if (activeIds.join() !== activeRuleIds.join()) setActiveRuleIds(activeIds);
+
+    const alerts = [
+      ...(count >= threshold ? ['crowd'] : []),
+      ...alertingZones.map(z => `zone:${z.name}`),
+      ...alertingClasses.map(t => `class:${t.class}`),
+      ...frame.activeRules.map(r => `rule:${r.name}`)
+    ];
+    localApiRef.current.update({
+      count,
+      peak: Math.max(stats.peakCounts[PERSON_CLASS] ?? 0, count),
+      alerting: alerts.length > 0,
+      alerts,
+      zones: Object.fromEntries(zones.map(z => [z.name, currentZoneCounts[z.id] ?? 0])),
+      classes: Object.fromEntries(classTargets.map(t => [t.class, classCounts[t.class]]))
+    });
+
+    // Sound alert, unless every sounding alert's incident has been acknowledged or snoozed
+    const soundKeys = [
+      ...frame.activeRules.filter(r => r.actions.includes('sound')).map(r => `rule:${r.id}`),
+      ...alertingClasses.map(t => `class:${t.class}`),
+      ...alertingZones.filter(z => z.soundEnabled).map(z => `zone:${z.id}`)
+    ];
+    if (soundEnabled && soundKeys.some(key => !incidentLogRef.current.isSilenced(key, Date.now()))) {
+      playAlertSound();
+    }
+
+    // FPS counts fresh model results only, not reused ones on a static scene
+    if (!reused) frameCountRef.current++;
+    const wallNow = Date.now();
+    const delta = wallNow - lastFpsTimeRef.current;
+    if (delta >= 1000) {
+      setFps(Math.round((frameCountRef.current * 1000) / delta));
+      frameCountRef.current = 0;
+      lastFpsTimeRef.current = wallNow;
+      if (scheduler) setSchedulerMetrics(scheduler.metrics());
+
+      setAnalyticsTick(t => t + 1);
+      const projected = forecastCounts(historyRef.current, wallNow, forecastMinutes);
+      const breachAt = count < threshold ? predictBreach(projected, threshold) : null;
+      if (breachAt !== null && !forecastAlertRef.current) {
+        addLog(`Predicted breach in ~${Math.max(1, Math.round((breachAt - wallNow) / 60000))} min: the forecast reaches the threshold of ${threshold}.`, "forecast");
+      }
+      forecastAlertRef.current = breachAt !== null;
+      setForecast(projected);
+      setPredictedBreachAt(breachAt);
+      setStats(prev => ({ ...prev, avgCount: aggregatorRef.current.summary().avgCount }));
+      // Thin out older samples once a minute so long sessions don't grow without bound
+      if (wallNow - lastCompactRef.current >= 60 * 1000) {
+        historyRef.current = compactHistory(historyRef.current, wallNow);
+        lastCompactRef.current = wallNow;
       }
+      setDwellDurations(counterRef.current.dwellDurations());
+      paintMovement();
+      notifierRef.current.publishCount(notificationChannels, count, currentZoneCounts);
     }
+  };
+  primaryHandlerRef.current = processDetections;
+
+  // Heatmap and flow overlay, repainted once a second; accumulation itself runs on every result
+  const paintMovement = (view = movementView) => {
+    const canvas = movementCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = frameSize.width;
+    canvas.height = frameSize.height;
+    if (view === 'off') return;
+    const snapshot = heatmapRef.current.snapshot();
+    if (view === 'heatmap') drawHeatmap(ctx, snapshot, canvas.width, canvas.height);
+    else drawFlow(ctx, snapshot, canvas.width, canvas.height);
+  };
+
+  const handleMovementView = (view: 'heatmap' | 'flow') => {
+    const next = movementView === view ? 'off' : view;
+    setMovementView(next);
+    paintMovement(next);
+  };
+
+  // The heatmap or flow layer over the current (privacy-masked) frame, as a PNG
+  const handleMovementExport = (view: 'heatmap' | 'flow') => {
+    const canvas = document.createElement('canvas');
+    canvas.width = frameSize.width;
+    canvas.height = frameSize.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (isMonitoring) ctx.drawImage(feedFrame(), 0, 0, canvas.width, canvas.height);
+    const snapshot = heatmapRef.current.snapshot();
+    if (view === 'heatmap') drawHeatmap(ctx, snapshot, canvas.width, canvas.height);
+    else drawFlow(ctx, snapshot, canvas.width, canvas.height);
+    const startTime = sessionRef.current?.startTime ?? lastSessionRef.current?.startTime ?? Date.now();
+    const stamp = new Date(startTime).toISOString().replace(/[:.]/g, '-');
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      downloadBlob(blob, `DX_${view === 'heatmap' ? 'Heatmap' : 'Flow'}_${stamp}.png`);
+      addLog(`Exported ${view} PNG.`, "success");
+    }, 'image/png');
+  };
+  privacyRef.current = privacy;
+  tilingRef.current = detectionSpeed === DetectionSpeed.TILED ? { ...DEFAULT_TILING, regions: tileRegions } : null;
 
-    const delay = detectionSpeed === DetectionSpeed.FAST ? 30 : detectionSpeed === DetectionSpeed.NORMAL ? 100 : 250;
-    setTimeout(() => {
-      detectionLoopRef.current = requestAnimationFrame(runDetection);
-    }, delay);
-  }, [model, isMonitoring, confidence, threshold, soundEnabled, detectionSpeed, renderDetections]);
+  // Snapshot of the running session for IndexedDB. Reassigned every render so the
+  // autosave timer always sees the latest settings.
+  const buildSessionRecord = (endTime: number | null): SessionRecord | null => {
+    const session = sessionRef.current;
+    if (!session) return null;
+    const series = historyRef.current;
+    return {
+      ...session,
+      endTime,
+      settings: { threshold, confidence, detectionSpeed, schedule, tileRegions, classTargets, privacy: { enabled: privacy.enabled, style: privacy.style, region: privacy.region }, soundEnabled, dwellLimit, zones, tripwires },
+      series: [...series],
+      logs: [...sessionLogsRef.current],
+      peakCount: series.reduce((max, s) => Math.max(max, s.count), 0),
+      lineCounts,
+      incidents,
+      totals: aggregatorRef.current.totals()
+    };
+  };
+
+  persistSessionRef.current = (endTime: number | null) => {
+    const record = buildSessionRecord(endTime);
+    if (!record) return;
+    lastSessionRef.current = record;
+    saveSession(record)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.warn("Session not persisted:", err));
+  };
+
+  useEffect(() => {
+    if (!isMonitoring) return;
+    const interval = setInterval(() => persistSessionRef.current(null), SESSION_AUTOSAVE_MS);
+    return () => clearInterval(interval);
+  }, [isMonitoring]);
+
+  // Per-session analytics state, cleared whenever a new feed starts
+  const resetSessionState = (source: string) => {
+    const startTime = Date.now();
+    sessionRef.current = { id: `${startTime}-${Math.random().toString(36).substr(2, 5)}`, source, startTime };
+    sessionLogsRef.current = [];
+    historyRef.current = [];
+    aggregatorRef.current.reset();
+    forecastAlertRef.current = false;
+    setForecast([]);
+    setPredictedBreachAt(null);
+    setStats(s => ({ ...s, avgCount: 0, sessionStartTime: startTime }));
+    counterRef.current.reset();
+    setLineCounts({});
+    privacyMaskRef.current.reset();
+    heatmapRef.current.reset();
+    paintMovement();
+    setDwellDurations([]);
+    setActiveRuleIds([]);
+    incidentLogRef.current.reset();
+    setIncidents([]);
+  };
 
   // Start Webcam
   const handleStartWebcam = async () => {
+    networkStreamRef.current?.stop();
+    networkStreamRef.current = null;
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 1280, height: 720, facingMode: 'environment' }
+        video: primaryDeviceId
+          ? { width: 1280, height: 720, deviceId: { exact: primaryDeviceId } }
+          : { width: 1280, height: 720, facingMode: 'environment' }
       });
+      // Device labels become readable once permission has been granted
+      listVideoDevices().then(setDevices).catch(() => {});
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.onloadedmetadata = () => {
@@ -216,9 +826,10 @@ const App: React.FC = () => {
           if (canvasRef.current && videoRef.current) {
             canvasRef.current.width = videoRef.current.videoWidth;
             canvasRef.current.height = videoRef.current.videoHeight;
+            setFrameSize({ width: videoRef.current.videoWidth, height: videoRef.current.videoHeight });
           }
+          resetSessionState('Webcam');
           setIsMonitoring(true);
-          setStats(s => ({ ...s, sessionStartTime: Date.now() }));
           addLog("Live monitoring started via webcam.", "success");
         };
       }
@@ -231,6 +842,8 @@ const App: React.FC = () => {
   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file && videoRef.current) {
+      networkStreamRef.current?.stop();
+      networkStreamRef.current = null;
       const url = URL.createObjectURL(file);
       videoRef.current.srcObject = null;
       videoRef.current.src = url;
@@ -239,19 +852,65 @@ const App: React.FC = () => {
         if (canvasRef.current && videoRef.current) {
           canvasRef.current.width = videoRef.current.videoWidth;
           canvasRef.current.height = videoRef.current.videoHeight;
+          setFrameSize({ width: videoRef.current.videoWidth, height: videoRef.current.videoHeight });
         }
+        resetSessionState(file.name);
         setIsMonitoring(true);
-        setStats(s => ({ ...s, sessionStartTime: Date.now() }));
         addLog(`Processing video file: ${file.name}`, "info");
       };
     }
   };
 
+  // IP camera: MJPEG directly or RTSP through the relay, reconnecting on its own when the stream drops
+  const handleStartNetworkStream = async () => {
+    const label = streamLabel(networkSource.url);
+    networkStreamRef.current?.stop();
+    const stream = createNetworkStream(networkSource, (status, detail) => {
+      if (status === 'reconnecting') addLog(`Stream from ${label} dropped (${detail}).`, "warning");
+      else if (detail === 'reconnected') addLog(`Stream from ${label} reconnected.`, "success");
+    });
+    networkStreamRef.current = stream;
+    setConnectingTo(label);
+    addLog(`Connecting to ${label}...`, "info");
+    let media: MediaStream;
+    try {
+      media = await stream.start();
+    } catch {
+      // Stopped before the first frame arrived; leave a newer connection's state alone
+      if (!networkStreamRef.current || networkStreamRef.current === stream) setConnectingTo(null);
+      return;
+    }
+    setConnectingTo(null);
+    if (videoRef.current) {
+      videoRef.current.src = '';
+      videoRef.current.srcObject = media;
+      videoRef.current.onloadedmetadata = () => {
+        videoRef.current?.play();
+        if (canvasRef.current && videoRef.current) {
+          canvasRef.current.width = videoRef.current.videoWidth;
+          canvasRef.current.height = videoRef.current.videoHeight;
+          setFrameSize({ width: videoRef.current.videoWidth, height: videoRef.current.videoHeight });
+        }
+        resetSessionState(label);
+        setIsMonitoring(true);
+        addLog(`Live monitoring started via network camera ${label}.`, "success");
+      };
+    }
+  };
+
   // Stop everything
   const handleStop = () => {
+    if (!isMonitoring && connectingTo) {
+      networkStreamRef.current?.stop();
+      networkStreamRef.current = null;
+      setConnectingTo(null);
+      addLog(`Connection to ${connectingTo} cancelled.`, "warning");
+      return;
+    }
+    networkStreamRef.current?.stop();
+    networkStreamRef.current = null;
     setIsMonitoring(false);
     setIsRecording(false);
-    if (detectionLoopRef.current) cancelAnimationFrame(detectionLoopRef.current);
     if (videoRef.current?.srcObject) {
       (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
     }
@@ -261,87 +920,371 @@ const App: React.FC = () => {
       videoRef.current.srcObject = null;
     }
     setSessionDuration('00:00');
+    setEditorMode('none');
     addLog("Monitoring halted.", "warning");
+    persistSessionRef.current(Date.now());
+    sessionRef.current = null;
   };
 
-  // Screenshots
+  // Exports cover the running session, or the last one once monitoring has stopped
+  const handleExport = async (kind: 'counts' | 'logs' | 'incidents' | 'bundle' | 'report') => {
+    const session = buildSessionRecord(null) ?? lastSessionRef.current;
+    if (!session) return;
+    const stamp = new Date(session.startTime).toISOString().replace(/[:.]/g, '-');
+    const selectedShots = () => Promise.all(
+      screenshots
+        .filter(shot => reportShotIds.includes(shot.id))
+        .map(async shot => ({ timestamp: shot.timestamp, counts: shot.counts, reason: shot.reason, dataUrl: await blobToDataUrl(shot.blob) }))
+    );
+
+    if (kind === 'counts') {
+      downloadBlob(new Blob([seriesToCsv(session)], { type: 'text/csv' }), `DX_Counts_${stamp}.csv`);
+    } else if (kind === 'logs') {
+      downloadBlob(new Blob([logsToCsv(session.logs)], { type: 'text/csv' }), `DX_Log_${stamp}.csv`);
+    } else if (kind === 'incidents') {
+      downloadBlob(new Blob([incidentsToCsv(session)], { type: 'text/csv' }), `DX_Incidents_${stamp}.csv`);
+    } else if (kind === 'bundle') {
+      const json = JSON.stringify(buildSessionBundle(session, await selectedShots()), null, 2);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `DX_Session_${stamp}.json`);
+    } else if (!openPrintableReport(buildReportHtml(session, await selectedShots()))) {
+      addLog("Report window was blocked by the browser.", "error");
+      return;
+    }
+    addLog(`Exported ${kind === 'report' ? 'printable report' : kind === 'bundle' ? 'JSON bundle' : `${kind} CSV`}.`, "success");
+  };
+
+  // Camera grid
+  const handleCameraStats = useCallback((feedId: string, feedStats: CameraStats) => {
+    setCameraStats(prev => ({ ...prev, [feedId]: feedStats }));
+  }, []);
+
+  const handleCameraFeedsChange = (feeds: CameraFeed[]) => {
+    setCameraFeeds(feeds);
+    setCameraStats(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => feeds.some(f => f.id === id))));
+  };
+
+  // Tripwires
+  const handleTripwireDrawn = (start: Point, end: Point) => {
+    const line: Tripwire = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `Line ${tripwires.length + 1}`,
+      start,
+      end,
+      inDirection: 'left-to-right'
+    };
+    setTripwires(prev => [...prev, line]);
+    setEditorMode('none');
+    addLog(`Tripwire "${line.name}" added.`, "success");
+  };
+
+  // Zones
+  const handleZoneDrawn = (points: Point[]) => {
+    const zone: Zone = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `Zone ${zones.length + 1}`,
+      points,
+      threshold,
+      color: ZONE_COLORS[zones.length % ZONE_COLORS.length],
+      soundEnabled: true
+    };
+    setZones(prev => [...prev, zone]);
+    setEditorMode('none');
+    addLog(`Zone "${zone.name}" added.`, "success");
+  };
+
+  const handleTileRegionDrawn = (rect: Rect) => {
+    setEditorMode('none');
+    if (rect.width < 32 || rect.height < 32) {
+      addLog("Tile region too small; drag out a larger area.", "warning");
+      return;
+    }
+    const region: TileRegion = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `Region ${tileRegions.length + 1}`,
+      ...rect
+    };
+    setTileRegions(prev => [...prev, region]);
+    addLog(`Tile region "${region.name}" added.`, "success");
+  };
+
+  const handleAdminUnlock = async (pin: string) => {
+    const ok = await verifyPin(pin, privacy);
+    setAdminUnlocked(ok);
+    addLog(ok ? "Admin unlocked the raw feed view." : "Admin unlock failed: wrong PIN.", ok ? "warning" : "alert");
+    return ok;
+  };
+
+  const handleAdminLock = () => {
+    setAdminUnlocked(false);
+    addLog("Admin raw view locked.", "info");
+  };
+
+  const handlePrivacyChange = (next: PrivacySettings) => {
+    if (next.enabled !== privacy.enabled) addLog(`Privacy mode ${next.enabled ? 'enabled' : 'disabled'}.`, next.enabled ? "success" : "warning");
+    setPrivacy(next);
+  };
+
+  const showRaw = !privacy.enabled || adminUnlocked;
+  const personCount = stats.currentCounts[PERSON_CLASS] ?? 0;
+  const alertingZones = isMonitoring ? zonesInAlert(zones, zoneCounts) : [];
+  const alertingClasses = isMonitoring ? classesInAlert(classTargets, stats.currentCounts) : [];
+  const alertingCameras = cameraFeeds.filter(f => (cameraStats[f.id]?.currentCount ?? 0) >= f.threshold);
+  const activeRules = isMonitoring ? alertRules.filter(r => activeRuleIds.includes(r.id)) : [];
+  const breachForecastMinutes = isMonitoring && predictedBreachAt !== null
+    ? Math.max(1, Math.round((predictedBreachAt - Date.now()) / 60000))
+    : null;
+  const isCrowdAlert = activeRules.length > 0 || alertingZones.length > 0 || alertingClasses.length > 0 || alertingCameras.length > 0;
+  // Everything alerting right now; rules only count if they show a banner or sound
+  const activeAlerts: ActiveAlert[] = [
+    ...activeRules.filter(r => r.actions.includes('banner') || r.actions.includes('sound')).map(r => ({
+      key: `rule:${r.id}`,
+      title: r.name,
+      detail: `${r.conditions.map(c => describeCondition(c, id => zones.find(z => z.id === id)?.name ?? 'zone')).join(', ')}.`,
+      count: personCount
+    })),
+    ...alertingZones.map(z => ({ key: `zone:${z.id}`, title: 'Crowd Warning', detail: `Threshold of ${z.threshold} exceeded in ${z.name}.`, count: zoneCounts[z.id] ?? 0 })),
+    ...alertingClasses.map(t => ({ key: `class:${t.class}`, title: 'Object Warning', detail: `Threshold of ${t.threshold} exceeded for ${t.class}.`, count: stats.currentCounts[t.class] ?? 0 })),
+    ...alertingCameras.map(f => ({ key: `camera:${f.id}`, title: 'Crowd Warning', detail: `Threshold of ${f.threshold} exceeded on ${f.label}.`, count: cameraStats[f.id]?.currentCount ?? 0 }))
+  ];
+  // Sound-only rules have no banner, and alerts resolved by hand lose theirs until they clear
+  const bannerAlerts = activeAlerts.filter(a =>
+    !activeRules.some(r => a.key === `rule:${r.id}` && !r.actions.includes('banner')) && !incidentLogRef.current.isHeld(a.key)
+  );
+  const silencedFeedIds = cameraFeeds.filter(f => incidentLogRef.current.isSilenced(`camera:${f.id}`, Date.now())).map(f => f.id);
+
   const takeScreenshot = () => {
     if (!videoRef.current || !canvasRef.current) return;
-    const shotCanvas = document.createElement('canvas');
-    shotCanvas.width = videoRef.current.videoWidth;
-    shotCanvas.height = videoRef.current.videoHeight;
-    const ctx = shotCanvas.getContext('2d');
-    if (ctx) {
-      ctx.drawImage(videoRef.current, 0, 0);
-      ctx.drawImage(canvasRef.current, 0, 0);
-      const url = shotCanvas.toDataURL('image/png');
-      const newShot: Screenshot = {
-        id: Math.random().toString(36).substr(2, 9),
-        url,
-        timestamp: new Date().toLocaleTimeString(),
-        count: stats.currentCount
-      };
-      setScreenshots(prev => [newShot, ...prev]);
-      addLog("Manual screenshot captured.", "success");
-    }
+    captureScreenshot(stats.currentCounts);
+    addLog("Manual screenshot captured.", "success");
   };
 
   // Recording
-  const toggleRecording = () => {
-    if (isRecording) {
-      mediaRecorderRef.current?.stop();
-      setIsRecording(false);
-      addLog("Recording saved.", "success");
-    } else {
-      if (!videoRef.current || !canvasRef.current) return;
-      
-      const recordCanvas = document.createElement('canvas');
-      recordCanvas.width = videoRef.current.videoWidth;
-      recordCanvas.height = videoRef.current.videoHeight;
-      const ctx = recordCanvas.getContext('2d');
-      
-      const stream = recordCanvas.captureStream(30);
-      const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
-      
-      recordedChunksRef.current = [];
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) recordedChunksRef.current.push(e.data);
-      };
-      
-      recorder.onstop = () => {
-        const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `DX_Surveillance_${Date.now()}.webm`;
-        a.click();
-      };
+  const stopRecording = () => {
+    if (mediaRecorderRef.current?.state !== 'recording') return;
+    mediaRecorderRef.current.stop();
+    setIsRecording(false);
+    addLog("Recording saved.", "success");
+  };
 
-      const drawLoop = () => {
-        if (recorder.state === 'recording') {
-          ctx?.drawImage(videoRef.current!, 0, 0);
-          ctx?.drawImage(canvasRef.current!, 0, 0);
-          requestAnimationFrame(drawLoop);
-        }
-      };
+  // Records the composited feed; with autoStopMs the recording ends by itself
+  const startRecording = (autoStopMs?: number) => {
+    if (mediaRecorderRef.current?.state === 'recording') return;
+    if (!videoRef.current || !canvasRef.current) return;
+
+    const recordCanvas = document.createElement('canvas');
+    recordCanvas.width = videoRef.current.videoWidth;
+    recordCanvas.height = videoRef.current.videoHeight;
+    const ctx = recordCanvas.getContext('2d');
+    
+    const stream = recordCanvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    
+    recordedChunksRef.current = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) recordedChunksRef.current.push(e.data);
+    };
+    
+    recorder.onstop = () => {
+      const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `DX_Surveillance_${Date.now()}.webm`;
+      a.click();
+    };
 
-      recorder.start();
-      setIsRecording(true);
-      drawLoop();
-      addLog("Video recording started.", "info");
-      mediaRecorderRef.current = recorder;
+    const drawLoop = () => {
+      if (recorder.state === 'recording') {
+        ctx?.drawImage(feedFrame(), 0, 0);
+        ctx?.drawImage(canvasRef.current!, 0, 0);
+        requestAnimationFrame(drawLoop);
+      }
+    };
+
+    recorder.start();
+    setIsRecording(true);
+    drawLoop();
+    addLog(autoStopMs ? "Alert recording started." : "Video recording started.", "info");
+    mediaRecorderRef.current = recorder;
+
+    if (autoStopMs) {
+      setTimeout(() => {
+        if (mediaRecorderRef.current !== recorder || recorder.state !== 'recording') return;
+        recorder.stop();
+        setIsRecording(false);
+        addLog("Alert recording saved.", "success");
+      }, autoStopMs);
     }
   };
 
-  // Launch loop
+  const toggleRecording = () => (isRecording ? stopRecording() : startRecording());
+
+  // Saves the buffered seconds before now plus the post-roll as an event clip.
+  // Returns false when no buffer is running, so callers can fall back to a plain recording.
+  const recordEvent = (reason: string, counts: Record<string, number>) => {
+    const session = sessionRef.current;
+    const recorder = clipRecorderRef.current;
+    if (!session || !recorder.isRunning()) return false;
+    const time = Date.now();
+    addLog(`Saving event clip: ${reason}.`, "info");
+    recorder.capture()
+      .then(async clip => {
+        if (!clip) return;
+        await saveEventClip({ id: Math.random().toString(36).substr(2, 9), sessionId: session.id, time, reason, counts, ...clip });
+        setEventsVersion(v => v + 1);
+        addLog(`Event clip saved: ${reason} (${formatTimestamp(clip.durationMs / 1000)}).`, "success");
+      })
+      .catch(err => {
+        console.warn("Event clip not saved:", err);
+        addLog(`Could not save event clip: ${reason}.`, "error");
+      });
+    return true;
+  };
+
+  // Attach the primary feed to the shared detection scheduler while monitoring
+  useEffect(() => {
+    if (!scheduler || !isMonitoring || !videoRef.current) return;
+    return scheduler.register({
+      id: 'primary',
+      video: videoRef.current,
+      onResult: (predictions, { reused }) => primaryHandlerRef.current(predictions, reused),
+      getTiling: () => tilingRef.current
+    });
+  }, [scheduler, isMonitoring]);
+
+  useEffect(() => {
+    scheduler?.setSchedule(schedule);
+  }, [scheduler, schedule]);
+
+  // Each Processing Mode starts from its preset rate, which the target slider can then adjust
+  const handleSpeedChange = (speed: DetectionSpeed) => {
+    setDetectionSpeed(speed);
+    setSchedule(prev => ({ ...prev, target: 'rate', detectionsPerSecond: SPEED_PRESETS[speed] }));
+  };
+
+  // Detection Parameters are saved into whichever profile is active
+  useEffect(() => {
+    const settings: ProfileSettings = { threshold, confidence, dwellLimit, detectionSpeed, schedule, soundEnabled };
+    setProfileStore(prev => ({ ...prev, profiles: prev.profiles.map(p => (p.id === prev.activeId ? { ...p, settings } : p)) }));
+  }, [threshold, confidence, dwellLimit, detectionSpeed, schedule, soundEnabled]);
+
   useEffect(() => {
-    if (isMonitoring) {
-      runDetection();
+    saveProfileStore(profileStore);
+  }, [profileStore]);
+
+  const applyProfileSettings = (settings: ProfileSettings) => {
+    setThreshold(settings.threshold);
+    setConfidence(settings.confidence);
+    setDwellLimit(settings.dwellLimit);
+    setDetectionSpeed(settings.detectionSpeed);
+    setSchedule(settings.schedule);
+    setSoundEnabled(settings.soundEnabled);
+  };
+
+  // Edits from the profiles panel and scheduled switches; a newly active profile's settings take over
+  const handleProfilesChange = (next: ProfileStore, reason = '') => {
+    if (next.activeId !== profileStore.activeId) {
+      const profile = activeProfile(next);
+      applyProfileSettings(profile.settings);
+      addLog(`Switched to profile ${profile.name}${reason}.`, "info");
     }
-    return () => {
-      if (detectionLoopRef.current) cancelAnimationFrame(detectionLoopRef.current);
+    setProfileStore(next);
+  };
+
+  scheduledProfileRef.current = (profileId: string, start: string) => {
+    if (profileId === profileStore.activeId || !profileStore.profiles.some(p => p.id === profileId)) return;
+    handleProfilesChange({ ...profileStore, activeId: profileId }, ` on schedule (from ${start})`);
+  };
+
+  useEffect(() => {
+    const { enabled, entries } = profileStore.autoSwitch;
+    if (!enabled || entries.length === 0) {
+      lastProfileSwitchRef.current = null;
+      return;
+    }
+    const check = () => {
+      const due = scheduledSwitch(entries, new Date());
+      if (!due) return;
+      const key = `${due.entry.id}@${due.since}`;
+      if (key === lastProfileSwitchRef.current) return;
+      lastProfileSwitchRef.current = key;
+      scheduledProfileRef.current(due.entry.profileId, due.entry.start);
     };
-  }, [isMonitoring, runDetection]);
+    check();
+    const interval = setInterval(check, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [profileStore.autoSwitch]);
+
+  const handleProfilesExport = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const json = JSON.stringify(buildProfilesDocument(profileStore), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `DX_Profiles_${stamp}.json`);
+    addLog(`Exported ${profileStore.profiles.length} settings profile(s).`, "success");
+  };
+
+  const handleProfilesImport = async (file: File) => {
+    try {
+      const doc = parseProfilesDocument(await file.text());
+      const next = importProfiles(profileStore, doc);
+      applyProfileSettings(activeProfile(next).settings);
+      setProfileStore(next);
+      addLog(`Imported ${doc.profiles.map(p => p.name).join(', ')} from ${file.name}${doc.autoSwitch.entries.length > 0 ? ' with its schedule' : ''}.`, "success");
+    } catch (err) {
+      addLog(`Could not import ${file.name}: ${(err as Error).message}`, "error");
+    }
+  };
+
+  // Incidents follow the alerts: opened when one starts, resolved when it clears
+  syncIncidentsRef.current = () => {
+    const { events, changed } = incidentLogRef.current.update(activeAlerts, Date.now());
+    events.forEach(({ kind, incident }) => {
+      const label = `${incident.title} (${incident.detail.replace(/\.$/, '')})`;
+      if (kind === 'cleared') addLog(`Incident ${label} cleared after ${formatTimestamp(durationMs(incident) / 1000)}.`, "info");
+      else if (kind === 'snooze-ended') addLog(`Snooze ended for ${label}; the alert is still active.`, "warning");
+    });
+    if (changed) setIncidents(incidentLogRef.current.list());
+  };
+
+  const alertSignature = activeAlerts.map(a => `${a.key}:${a.count}`).join('|');
+  useEffect(() => {
+    syncIncidentsRef.current();
+  }, [alertSignature]);
+
+  // Snoozes run out on their own, even while the alerts stay unchanged
+  const snoozing = incidents.some(i => i.state === 'snoozed');
+  useEffect(() => {
+    if (!snoozing) return;
+    const interval = setInterval(() => syncIncidentsRef.current(), 1000);
+    return () => clearInterval(interval);
+  }, [snoozing]);
+
+  const handleIncidentAcknowledge = (id: string, operator: string, note: string) => {
+    const incident = incidentLogRef.current.acknowledge(id, operator, note, Date.now());
+    // Resolved incidents come back unchanged, with nothing to acknowledge
+    const response = incident ? responseMs(incident) : null;
+    if (!incident || incident.state === 'resolved' || response === null) return;
+    setOperatorName(operator);
+    setIncidents(incidentLogRef.current.list());
+    addLog(`${operator} acknowledged ${incident.title} after ${formatTimestamp(response / 1000)}${incident.note ? `: ${incident.note}` : ''}.`, "success");
+  };
+
+  const handleIncidentSnooze = (id: string, minutes: number) => {
+    // Only open incidents can be snoozed; others come back unchanged
+    const wasOpen = incidentLogRef.current.list().some(i => i.id === id && i.state === 'open');
+    const incident = incidentLogRef.current.snooze(id, minutes, Date.now());
+    if (!incident || !wasOpen) return;
+    setIncidents(incidentLogRef.current.list());
+    addLog(`${incident.title} snoozed for ${minutes} min.`, "info");
+  };
+
+  const handleIncidentResolve = (id: string, operator: string) => {
+    const wasResolved = incidentLogRef.current.list().some(i => i.id === id && i.state === 'resolved');
+    const incident = incidentLogRef.current.resolve(id, operator, Date.now());
+    if (!incident || wasResolved) return;
+    setOperatorName(operator);
+    setIncidents(incidentLogRef.current.list());
+    addLog(`${operator} resolved ${incident.title} after ${formatTimestamp(durationMs(incident) / 1000)}.`, "success");
+  };
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -359,14 +1302,14 @@ const App: React.FC = () => {
 
         <div className="flex items-center gap-6">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${stats.currentCount >= threshold ? 'bg-red-500 animate-ping' : 'bg-emerald-500'}`} />
+            <div className={`w-2 h-2 rounded-full ${isCrowdAlert ? 'bg-red-500 animate-ping' : 'bg-emerald-500'}`} />
             <span className="text-xs font-medium uppercase tracking-wider text-neutral-400">
-              {stats.currentCount >= threshold ? 'Crowd Alert' : 'Normal Activity'}
+              {isCrowdAlert ? 'Crowd Alert' : 'Normal Activity'}
             </span>
           </div>
           <div className="bg-neutral-800 px-3 py-1 rounded border border-neutral-700">
             <span className="text-xs font-mono text-emerald-400">
-              {isSystemReady ? 'MODEL: COCO-SSD-V2' : 'LOADING NEURAL ENGINE...'}
+              {isSystemReady ? `MODEL: ${modelLabel(detectorConfig).toUpperCase()} · ${activeBackend.toUpperCase()}` : 'LOADING NEURAL ENGINE...'}
             </span>
           </div>
         </div>
@@ -384,21 +1327,45 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-neutral-950/80 z-20 text-center p-8">
                   <Camera className="w-16 h-16 text-emerald-500/20 mb-4" />
                   <h2 className="text-xl font-medium mb-2">No Active Feed</h2>
-                  <p className="text-neutral-500 max-w-xs text-sm">Start your webcam or upload a video file to begin AI crowd monitoring.</p>
+                  <p className="text-neutral-500 max-w-xs text-sm">Start your webcam, connect a network camera or upload a video file to begin AI crowd monitoring.</p>
                 </div>
               )}
 
               <video 
                 ref={videoRef} 
-                className="w-full h-full object-contain"
+                className={`w-full h-full object-contain ${showRaw ? '' : 'invisible'}`}
                 muted
                 playsInline
               />
+              <canvas
+                ref={privacyCanvasRef}
+                className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${showRaw ? 'hidden' : ''}`}
+              />
+              <canvas
+                ref={movementCanvasRef}
+                className={`absolute inset-0 w-full h-full object-contain pointer-events-none z-10 ${movementView === 'off' ? 'hidden' : ''}`}
+              />
               <canvas 
                 ref={canvasRef} 
                 className="absolute inset-0 w-full h-full object-contain pointer-events-none z-10"
               />
 
+              {isMonitoring && (
+                <OverlayEditor
+                  width={frameSize.width}
+                  height={frameSize.height}
+                  mode={editorMode}
+                  tripwires={tripwires}
+                  lineCounts={lineCounts}
+                  zones={zones}
+                  zoneCounts={zoneCounts}
+                  onTripwireDrawn={handleTripwireDrawn}
+                  onZoneDrawn={handleZoneDrawn}
+                  tileRegions={detectionSpeed === DetectionSpeed.TILED ? tileRegions : []}
+                  onTileRegionDrawn={handleTileRegionDrawn}
+                />
+              )}
+
               {/* HUD Overlays */}
               {isMonitoring && (
                 <div className="absolute top-4 left-4 flex flex-col gap-2 z-30 pointer-events-none">
@@ -408,11 +1375,34 @@ const App: React.FC = () => {
                       <span className="text-sm font-mono text-emerald-400">{fps}</span>
                     </div>
                     <div className="w-px h-6 bg-white/10" />
+                    <div className="flex flex-col">
+                      <span className="text-[10px] text-neutral-400 uppercase font-bold">Latency</span>
+                      <span className="text-sm font-mono text-white">{schedulerMetrics ? `${Math.round(schedulerMetrics.latencyMs)}ms` : '—'}</span>
+                    </div>
+                    <div className="w-px h-6 bg-white/10" />
+                    <div className="flex flex-col">
+                      <span className="text-[10px] text-neutral-400 uppercase font-bold">Skip</span>
+                      <span className="text-sm font-mono text-white">{schedulerMetrics ? `${Math.round(schedulerMetrics.skipRatio * 100)}%` : '—'}</span>
+                    </div>
+                    <div className="w-px h-6 bg-white/10" />
+                    <div className="flex flex-col">
+                      <span className="text-[10px] text-neutral-400 uppercase font-bold">Backend</span>
+                      <span className="text-sm font-mono text-white uppercase">{schedulerMetrics?.backend || activeBackend || '—'}</span>
+                    </div>
+                    <div className="w-px h-6 bg-white/10" />
                     <div className="flex flex-col">
                       <span className="text-[10px] text-neutral-400 uppercase font-bold">Res</span>
                       <span className="text-sm font-mono text-white">720p</span>
                     </div>
                   </div>
+                  {privacy.enabled && (
+                    <div className={`backdrop-blur px-3 py-1.5 rounded-lg border flex items-center gap-2 self-start ${adminUnlocked ? 'bg-amber-500/20 border-amber-500/50 text-amber-400' : 'bg-black/60 border-emerald-500/40 text-emerald-400'}`}>
+                      {adminUnlocked ? <ShieldOff className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+                      <span className="text-[10px] font-bold uppercase tracking-wider">
+                        {adminUnlocked ? 'Raw View · Admin' : `Privacy · ${privacy.style} ${privacy.region === 'head' ? 'heads' : 'people'}`}
+                      </span>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -436,10 +1426,31 @@ const App: React.FC = () => {
                 >
                   <Camera className="w-4 h-4" /> Start Webcam
                 </button>
+                <select
+                  value={primaryDeviceId}
+                  onChange={(e) => setPrimaryDeviceId(e.target.value)}
+                  disabled={isMonitoring}
+                  className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 text-sm max-w-[12rem] disabled:opacity-50 focus:outline-none focus:border-emerald-500"
+                  title="Primary camera"
+                >
+                  <option value="">Default camera</option>
+                  {devices.map((d, i) => (
+                    <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleStartNetworkStream}
+                  disabled={isMonitoring || !!connectingTo || !isSystemReady || !networkSource.url.trim()}
+                  className="p-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-all"
+                  title={networkSource.url.trim() ? `Connect to ${streamLabel(networkSource.url)}` : 'Set a network camera URL in Settings'}
+                >
+                  <Cctv className="w-5 h-5" />
+                </button>
                 <button 
                   onClick={handleStop}
-                  disabled={!isMonitoring}
+                  disabled={!isMonitoring && !connectingTo}
                   className="flex items-center gap-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-all"
+                  title={connectingTo && !isMonitoring ? `Stop connecting to ${connectingTo}` : undefined}
                 >
                   <Square className="w-4 h-4" /> Stop Feed
                 </button>
@@ -462,6 +1473,14 @@ const App: React.FC = () => {
                 >
                   <Circle className={`w-5 h-5 ${isRecording ? 'fill-red-500' : ''}`} />
                 </button>
+                <button 
+                  onClick={() => recordEvent('Manual event', stats.currentCounts)}
+                  disabled={!isMonitoring || !clipSettings.enabled}
+                  className="p-2 hover:bg-neutral-800 rounded-lg text-neutral-400 hover:text-white transition-all border border-transparent hover:border-neutral-700 disabled:opacity-50"
+                  title={`Save Event Clip (${clipSettings.preSeconds}s before, ${clipSettings.postSeconds}s after)`}
+                >
+                  <Film className="w-5 h-5" />
+                </button>
                 <div className="relative group">
                   <label className="flex items-center gap-2 cursor-pointer p-2 hover:bg-neutral-800 rounded-lg text-neutral-400 hover:text-white transition-all border border-transparent hover:border-neutral-700">
                     <Upload className="w-5 h-5" />
@@ -472,11 +1491,40 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Additional Cameras */}
+          <CameraGrid
+            devices={devices}
+            feeds={cameraFeeds}
+            scheduler={scheduler}
+            confidence={confidence}
+            threshold={threshold}
+            soundEnabled={soundEnabled}
+            silencedFeedIds={silencedFeedIds}
+            privacy={privacy}
+            showRaw={showRaw}
+            onFeedsChange={handleCameraFeedsChange}
+            onStats={handleCameraStats}
+            onLog={addLog}
+          />
+
+          {/* Offline File Analysis */}
+          <BatchAnalysis
+            scheduler={scheduler}
+            confidence={confidence}
+            threshold={threshold}
+            privacy={privacy}
+            showRaw={showRaw}
+            onLog={addLog}
+          />
+
           {/* Settings Section */}
           <div className="bg-neutral-900 rounded-2xl border border-neutral-800 p-6">
             <div className="flex items-center gap-2 mb-6">
               <SettingsIcon className="w-5 h-5 text-emerald-500" />
               <h3 className="text-lg font-bold">Detection Parameters</h3>
+              <span className="ml-auto px-2 py-0.5 rounded border border-emerald-500/20 bg-emerald-500/10 text-[10px] font-bold uppercase text-emerald-400" title="Active profile">
+                {activeProfile(profileStore).name}
+              </span>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
@@ -504,19 +1552,73 @@ const App: React.FC = () => {
                 />
               </div>
 
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <label className="text-xs text-neutral-400 font-bold uppercase">Dwell Limit</label>
+                  <span className="text-emerald-500 font-bold text-sm">{dwellLimit > 0 ? `${dwellLimit}s` : 'Off'}</span>
+                </div>
+                <input 
+                  type="range" min="0" max="300" step="5"
+                  value={dwellLimit} onChange={(e) => setDwellLimit(Number(e.target.value))}
+                  className="w-full accent-emerald-500 h-1.5 bg-neutral-800 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+
               <div className="space-y-3">
                 <label className="text-xs text-neutral-400 font-bold uppercase block">Processing Mode</label>
                 <select 
                   value={detectionSpeed}
-                  onChange={(e) => setDetectionSpeed(e.target.value as DetectionSpeed)}
+                  onChange={(e) => handleSpeedChange(e.target.value as DetectionSpeed)}
                   className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-emerald-500 transition-colors"
                 >
                   <option value={DetectionSpeed.FAST}>Efficiency (High FPS)</option>
                   <option value={DetectionSpeed.NORMAL}>Balanced</option>
                   <option value={DetectionSpeed.ACCURATE}>Precision (Deep Search)</option>
+                  <option value={DetectionSpeed.TILED}>Tiled (Small / Distant People)</option>
                 </select>
               </div>
 
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <div className="flex gap-1">
+                    {(['rate', 'budget'] as const).map(target => (
+                      <button
+                        key={target}
+                        onClick={() => setSchedule({ ...schedule, target })}
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase transition-colors ${schedule.target === target ? 'bg-emerald-500/20 text-emerald-400' : 'text-neutral-500 hover:text-neutral-300'}`}
+                      >
+                        {target === 'rate' ? 'Rate' : 'CPU Budget'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-emerald-500 font-bold text-sm">
+                    {schedule.target === 'rate' ? `${schedule.detectionsPerSecond}/s` : `${Math.round(schedule.cpuBudget * 100)}%`}
+                  </span>
+                </div>
+                {schedule.target === 'rate' ? (
+                  <input 
+                    type="range" min="1" max="30" step="1"
+                    value={schedule.detectionsPerSecond} onChange={(e) => setSchedule({ ...schedule, detectionsPerSecond: Number(e.target.value) })}
+                    className="w-full accent-emerald-500 h-1.5 bg-neutral-800 rounded-lg appearance-none cursor-pointer"
+                  />
+                ) : (
+                  <input 
+                    type="range" min="0.1" max="1" step="0.05"
+                    value={schedule.cpuBudget} onChange={(e) => setSchedule({ ...schedule, cpuBudget: Number(e.target.value) })}
+                    className="w-full accent-emerald-500 h-1.5 bg-neutral-800 rounded-lg appearance-none cursor-pointer"
+                  />
+                )}
+                <label className="flex items-center gap-2 text-[10px] text-neutral-400 font-bold uppercase cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={schedule.skipStatic}
+                    onChange={() => setSchedule({ ...schedule, skipStatic: !schedule.skipStatic })}
+                    className="accent-emerald-500"
+                  />
+                  Skip static frames
+                </label>
+              </div>
+
               <div className="space-y-3 flex flex-col justify-end">
                 <label className="flex items-center gap-3 cursor-pointer group">
                   <div className={`w-10 h-6 flex items-center rounded-full p-1 transition-colors ${soundEnabled ? 'bg-emerald-500' : 'bg-neutral-700'}`}>
@@ -527,6 +1629,184 @@ const App: React.FC = () => {
                 </label>
               </div>
             </div>
+
+            <div className="mt-8 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" /> Profiles
+              </label>
+              <ProfilesPanel
+                store={profileStore}
+                onChange={handleProfilesChange}
+                onExport={handleProfilesExport}
+                onImport={handleProfilesImport}
+              />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <Brain className="w-4 h-4" /> Detection Model
+              </label>
+              <ModelSettings
+                config={detectorConfig}
+                activeBackend={activeBackend}
+                loading={modelLoading}
+                onApply={handleModelApply}
+              />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <Cctv className="w-4 h-4" /> Network Camera
+              </label>
+              <NetworkSourcePanel
+                settings={networkSource}
+                disabled={isMonitoring || !isSystemReady}
+                onChange={setNetworkSource}
+                onConnect={handleStartNetworkStream}
+              />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <Server className="w-4 h-4" /> Local API
+              </label>
+              <LocalApiPanel settings={localApi} status={localApiStatus} onChange={setLocalApi} />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <Shapes className="w-4 h-4" /> Counted Classes
+              </label>
+              <ClassList
+                targets={classTargets}
+                options={availableClasses(detectorConfig)}
+                classCounts={stats.currentCounts}
+                onChange={setClassTargets}
+              />
+            </div>
+
+            {detectionSpeed === DetectionSpeed.TILED && (
+              <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                    <Grid3x3 className="w-4 h-4" /> Tile Regions
+                  </label>
+                  <button
+                    onClick={() => setEditorMode(editorMode === 'tile' ? 'none' : 'tile')}
+                    disabled={!isMonitoring}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-all disabled:opacity-50 ${editorMode === 'tile' ? 'bg-cyan-400 text-black' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300'}`}
+                  >
+                    <PenLine className="w-3 h-3" /> {editorMode === 'tile' ? 'Cancel' : 'Draw Region'}
+                  </button>
+                </div>
+                <TileRegionList
+                  regions={tileRegions}
+                  frameWidth={frameSize.width}
+                  frameHeight={frameSize.height}
+                  onChange={setTileRegions}
+                />
+              </div>
+            )}
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                  <ArrowLeftRight className="w-4 h-4" /> Tripwires
+                </label>
+                <button
+                  onClick={() => setEditorMode(editorMode === 'tripwire' ? 'none' : 'tripwire')}
+                  disabled={!isMonitoring}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-all disabled:opacity-50 ${editorMode === 'tripwire' ? 'bg-amber-500 text-black' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300'}`}
+                >
+                  <PenLine className="w-3 h-3" /> {editorMode === 'tripwire' ? 'Cancel' : 'Draw Line'}
+                </button>
+              </div>
+              <TripwireList tripwires={tripwires} lineCounts={lineCounts} onChange={setTripwires} />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                  <Hexagon className="w-4 h-4" /> Zones
+                </label>
+                <button
+                  onClick={() => setEditorMode(editorMode === 'zone' ? 'none' : 'zone')}
+                  disabled={!isMonitoring}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-all disabled:opacity-50 ${editorMode === 'zone' ? 'bg-blue-500 text-black' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300'}`}
+                >
+                  <PenLine className="w-3 h-3" /> {editorMode === 'zone' ? 'Cancel' : 'Draw Zone'}
+                </button>
+              </div>
+              <ZoneList zones={zones} zoneCounts={zoneCounts} onChange={setZones} />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" /> Alert Rules
+              </label>
+              <RulesEditor rules={alertRules} zones={zones} activeRuleIds={activeRuleIds} onChange={setAlertRules} />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <ShieldCheck className="w-4 h-4" /> Privacy Mode
+              </label>
+              <PrivacyPanel
+                settings={privacy}
+                adminUnlocked={adminUnlocked}
+                onChange={handlePrivacyChange}
+                onUnlock={handleAdminUnlock}
+                onLock={handleAdminLock}
+              />
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                  <Film className="w-4 h-4" /> Event Clips
+                </label>
+                <label className="flex items-center gap-2 text-[10px] text-neutral-400 font-bold uppercase cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={clipSettings.enabled}
+                    onChange={() => setClipSettings({ ...clipSettings, enabled: !clipSettings.enabled })}
+                    className="accent-emerald-500"
+                  />
+                  Buffer while monitoring
+                </label>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {([
+                  { key: 'preSeconds', label: 'Before Event', max: 30 },
+                  { key: 'postSeconds', label: 'After Event', max: 30 }
+                ] as const).map(field => (
+                  <div key={field.key} className="space-y-3">
+                    <div className="flex justify-between">
+                      <label className="text-xs text-neutral-400 font-bold uppercase">{field.label}</label>
+                      <span className="text-emerald-500 font-bold text-sm">{clipSettings[field.key]}s</span>
+                    </div>
+                    <input 
+                      type="range" min="1" max={field.max} step="1"
+                      value={clipSettings[field.key]} onChange={(e) => setClipSettings({ ...clipSettings, [field.key]: Number(e.target.value) })}
+                      className="w-full accent-emerald-500 h-1.5 bg-neutral-800 rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-neutral-600">Rules with the Record action and the clip button save the buffered seconds before the trigger plus the seconds after it to the Events tab.</p>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-neutral-800 space-y-3">
+              <label className="text-xs text-neutral-400 font-bold uppercase flex items-center gap-2">
+                <Bell className="w-4 h-4" /> Notifications
+              </label>
+              <NotificationSettings
+                channels={notificationChannels}
+                deliveries={deliveries}
+                onChange={setNotificationChannels}
+                onTest={handleTestNotification}
+              />
+            </div>
           </div>
         </div>
 
@@ -540,6 +1820,9 @@ const App: React.FC = () => {
                 { id: 'stats', label: 'Dashboard', icon: Activity },
                 { id: 'logs', label: 'Activity Log', icon: History },
                 { id: 'gallery', label: 'Screenshots', icon: ScreenshotIcon },
+                { id: 'events', label: 'Events', icon: Film },
+                { id: 'history', label: 'History', icon: Database },
+                { id: 'incidents', label: 'Incidents', icon: Siren },
               ].map(tab => (
                 <button
                   key={tab.id}
@@ -560,57 +1843,160 @@ const App: React.FC = () => {
                     <div className="bg-neutral-800/50 p-4 rounded-2xl border border-neutral-700">
                       <span className="text-[10px] text-neutral-500 uppercase font-black">Present Count</span>
                       <div className="flex items-end gap-2 mt-1">
-                        <span className={`text-4xl font-mono font-bold leading-none ${stats.currentCount >= threshold ? 'text-red-500' : 'text-emerald-400'}`}>
-                          {stats.currentCount}
+                        <span className={`text-4xl font-mono font-bold leading-none ${personCount >= threshold ? 'text-red-500' : 'text-emerald-400'}`}>
+                          {personCount}
                         </span>
-                        <TrendingUp className={`w-4 h-4 mb-1 ${stats.currentCount > 0 ? 'text-emerald-500' : 'text-neutral-600'}`} />
+                        <TrendingUp className={`w-4 h-4 mb-1 ${personCount > 0 ? 'text-emerald-500' : 'text-neutral-600'}`} />
                       </div>
                     </div>
                     <div className="bg-neutral-800/50 p-4 rounded-2xl border border-neutral-700">
                       <span className="text-[10px] text-neutral-500 uppercase font-black">Peak Density</span>
                       <div className="flex items-end gap-2 mt-1">
                         <span className="text-4xl font-mono font-bold leading-none text-white">
-                          {stats.peakCount}
+                          {stats.peakCounts[PERSON_CLASS] ?? 0}
                         </span>
                         <div className="text-[10px] mb-1 text-neutral-500">MAX</div>
                       </div>
                     </div>
+                    {tripwires.map(line => (
+                      <div key={line.id} className="bg-neutral-800/50 p-4 rounded-2xl border border-neutral-700">
+                        <span className="text-[10px] text-neutral-500 uppercase font-black truncate block">{line.name}</span>
+                        <div className="flex items-end justify-between mt-1 font-mono font-bold">
+                          <span className="text-2xl text-emerald-400 leading-none">{lineCounts[line.id]?.in ?? 0}<span className="text-[10px] text-neutral-500 ml-1">IN</span></span>
+                          <span className="text-2xl text-amber-400 leading-none">{lineCounts[line.id]?.out ?? 0}<span className="text-[10px] text-neutral-500 ml-1">OUT</span></span>
+                        </div>
+                      </div>
+                    ))}
+                    {zones.map(zone => {
+                      const count = zoneCounts[zone.id] ?? 0;
+                      return (
+                        <div key={zone.id} className="bg-neutral-800/50 p-4 rounded-2xl border border-neutral-700" style={{ borderLeftColor: zone.color, borderLeftWidth: 4 }}>
+                          <span className="text-[10px] text-neutral-500 uppercase font-black truncate block">{zone.name}</span>
+                          <div className="flex items-end gap-2 mt-1">
+                            <span className={`text-2xl font-mono font-bold leading-none ${count >= zone.threshold ? 'text-red-500' : 'text-white'}`}>{count}</span>
+                            <div className="text-[10px] mb-0.5 text-neutral-500">/ {zone.threshold}</div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {classTargets.map(target => {
+                      const count = stats.currentCounts[target.class] ?? 0;
+                      return (
+                        <div key={target.class} className="bg-neutral-800/50 p-4 rounded-2xl border border-neutral-700" style={{ borderLeftColor: target.color, borderLeftWidth: 4 }}>
+                          <span className="text-[10px] text-neutral-500 uppercase font-black truncate block">{target.class}</span>
+                          <div className="flex items-end gap-2 mt-1">
+                            <span className={`text-2xl font-mono font-bold leading-none ${count >= target.threshold ? 'text-red-500' : 'text-white'}`}>{count}</span>
+                            <div className="text-[10px] mb-0.5 text-neutral-500">/ {target.threshold} · peak {stats.peakCounts[target.class] ?? 0}</div>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
 
+                  {/* Per-camera Breakdown */}
+                  {cameraFeeds.length > 0 && (
+                    <div className="space-y-3">
+                      <div className="flex justify-between items-center">
+                        <h4 className="text-xs font-black uppercase tracking-widest text-neutral-400">All Cameras</h4>
+                        <span className="text-sm font-mono font-bold text-white">
+                          {(isMonitoring ? personCount : 0) + cameraFeeds.reduce((sum, f) => sum + (cameraStats[f.id]?.currentCount ?? 0), 0)}
+                          <span className="text-[10px] text-neutral-500 ml-1">TOTAL</span>
+                        </span>
+                      </div>
+                      <div className="bg-neutral-950/50 rounded-xl border border-neutral-800 divide-y divide-neutral-800">
+                        {[
+                          { id: 'primary', label: 'Primary Feed', limit: threshold, current: isMonitoring ? personCount : 0, peak: stats.peakCounts[PERSON_CLASS] ?? 0 },
+                          ...cameraFeeds.map(f => ({
+                            id: f.id,
+                            label: f.label,
+                            limit: f.threshold,
+                            current: cameraStats[f.id]?.currentCount ?? 0,
+                            peak: cameraStats[f.id]?.peakCount ?? 0
+                          }))
+                        ].map(row => (
+                          <div key={row.id} className="flex items-center justify-between px-4 py-2 text-xs">
+                            <span className="text-neutral-400 font-medium truncate">{row.label}</span>
+                            <span className="font-mono shrink-0">
+                              <span className={row.current >= row.limit ? 'text-red-500 font-bold' : 'text-emerald-400'}>{row.current}</span>
+                              <span className="text-neutral-600"> / {row.limit} · peak {row.peak}</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Trends Chart */}
+                  <AnalyticsPanel
+                    aggregator={aggregatorRef.current}
+                    refreshKey={analyticsTick}
+                    timeRange={timeRange}
+                    threshold={threshold}
+                    zones={zones}
+                    classTargets={classTargets}
+                    forecast={forecast}
+                    forecastMinutes={forecastMinutes}
+                    onTimeRangeChange={setTimeRange}
+                    onForecastMinutesChange={setForecastMinutes}
+                  />
+
+                  {/* Dwell Histogram */}
                   <div className="space-y-4">
                     <div className="flex justify-between items-center">
                       <h4 className="text-xs font-black uppercase tracking-widest text-neutral-400 flex items-center gap-2">
-                        <TrendingUp className="w-3 h-3" /> Population Trend
+                        <Timer className="w-3 h-3" /> Dwell Time
                       </h4>
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-emerald-500" />
-                        <span className="text-[10px] text-neutral-500 font-bold uppercase">Real-time</span>
-                      </div>
+                      <span className="text-[10px] text-neutral-500 font-bold uppercase">{dwellDurations.length} People</span>
                     </div>
-                    <div className="h-48 w-full bg-neutral-950/50 rounded-xl p-2 border border-neutral-800">
+                    <div className="h-32 w-full bg-neutral-950/50 rounded-xl p-2 border border-neutral-800">
                       <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={chartData}>
+                        <BarChart data={dwellHistogram(dwellDurations)}>
                           <CartesianGrid strokeDasharray="3 3" stroke="#262626" vertical={false} />
-                          <XAxis dataKey="time" hide />
-                          <YAxis domain={[0, 'auto']} hide />
+                          <XAxis dataKey="label" tick={{ fontSize: 9, fill: '#737373' }} axisLine={false} tickLine={false} />
+                          <YAxis allowDecimals={false} hide />
                           <Tooltip 
                             contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', fontSize: '10px' }}
-                            itemStyle={{ color: '#10b981' }}
+                            itemStyle={{ color: '#f59e0b' }}
+                            cursor={{ fill: '#262626' }}
                           />
-                          <Line 
-                            type="monotone" 
-                            dataKey="count" 
-                            stroke="#10b981" 
-                            strokeWidth={3} 
-                            dot={false}
-                            isAnimationActive={false}
-                          />
-                        </LineChart>
+                          <Bar dataKey="count" fill="#f59e0b" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+                        </BarChart>
                       </ResponsiveContainer>
                     </div>
                   </div>
 
+                  {/* Movement */}
+                  <div className="space-y-3">
+                    <h4 className="text-xs font-black uppercase tracking-widest text-neutral-400 flex items-center gap-2">
+                      <Flame className="w-3 h-3" /> Movement
+                    </h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { view: 'heatmap' as const, label: 'Heatmap', icon: Flame },
+                        { view: 'flow' as const, label: 'Flow', icon: Waypoints }
+                      ].map(layer => (
+                        <div key={layer.view} className="flex gap-1">
+                          <button
+                            onClick={() => handleMovementView(layer.view)}
+                            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase transition-all ${movementView === layer.view ? 'bg-emerald-500 text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                            title={`Show the ${layer.label.toLowerCase()} on the feed`}
+                          >
+                            <layer.icon className="w-3 h-3" /> {layer.label}
+                          </button>
+                          <button
+                            onClick={() => handleMovementExport(layer.view)}
+                            disabled={!isMonitoring && !lastSessionRef.current}
+                            className="px-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            title={`Export ${layer.label.toLowerCase()} PNG`}
+                          >
+                            <Download className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-neutral-600">Heatmap: where people stood this session. Flow: main walking direction per area; red arrows mark areas where people cross in many directions.</p>
+                  </div>
+
                   {/* Secondary Metrics */}
                   <div className="space-y-4">
                      <div className="flex items-center justify-between p-4 bg-neutral-800/30 rounded-xl border border-neutral-700/50">
@@ -629,6 +2015,32 @@ const App: React.FC = () => {
                      </div>
                   </div>
 
+                  {/* Export */}
+                  <div className="space-y-3">
+                    <h4 className="text-xs font-black uppercase tracking-widest text-neutral-400 flex items-center gap-2">
+                      <Download className="w-3 h-3" /> Export Session
+                    </h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { kind: 'counts' as const, label: 'Counts CSV', icon: FileText },
+                        { kind: 'logs' as const, label: 'Log CSV', icon: FileText },
+                        { kind: 'incidents' as const, label: 'Incidents CSV', icon: FileText },
+                        { kind: 'bundle' as const, label: 'JSON Bundle', icon: FileJson },
+                        { kind: 'report' as const, label: 'Print Report', icon: Printer }
+                      ].map(action => (
+                        <button
+                          key={action.kind}
+                          onClick={() => handleExport(action.kind)}
+                          disabled={!isMonitoring && !lastSessionRef.current}
+                          className="flex items-center justify-center gap-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed py-2 rounded-lg text-xs font-bold uppercase transition-all"
+                        >
+                          <action.icon className="w-3 h-3" /> {action.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-neutral-600">Tick screenshots in the gallery to include them in the report.</p>
+                  </div>
+
                   {/* Team Branding */}
                   <div className="pt-6 border-t border-neutral-800/50">
                     <div className="bg-emerald-500/5 border border-emerald-500/10 p-4 rounded-xl">
@@ -658,10 +2070,11 @@ const App: React.FC = () => {
                           <p className={`text-xs font-medium leading-relaxed ${
                             log.type === 'alert' ? 'text-red-400' : 
                             log.type === 'success' ? 'text-emerald-400' :
-                            log.type === 'warning' ? 'text-amber-400' :
+                            log.type === 'warning' || log.type === 'forecast' ? 'text-amber-400' :
                             'text-neutral-400'
                           }`}>
                             {log.type === 'alert' && <AlertTriangle className="inline w-3 h-3 mr-1 mb-0.5" />}
+                            {log.type === 'forecast' && <TrendingUp className="inline w-3 h-3 mr-1 mb-0.5" />}
                             {log.message}
                           </p>
                         </div>
@@ -671,6 +2084,22 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {activeTab === 'events' && <EventsPanel refreshKey={eventsVersion} />}
+
+              {activeTab === 'incidents' && (
+                <IncidentsPanel
+                  incidents={incidents}
+                  operator={operatorName}
+                  onAcknowledge={handleIncidentAcknowledge}
+                  onSnooze={handleIncidentSnooze}
+                  onResolve={handleIncidentResolve}
+                />
+              )}
+
+              {activeTab === 'history' && (
+                <HistoryPanel refreshKey={historyVersion} activeSessionId={isMonitoring ? sessionRef.current?.id ?? null : null} />
+              )}
+
               {activeTab === 'gallery' && (
                 <div className="grid grid-cols-1 gap-4">
                   {screenshots.length === 0 ? (
@@ -691,9 +2120,18 @@ const App: React.FC = () => {
                         <div className="p-3 flex justify-between items-center bg-neutral-900">
                           <div>
                             <p className="text-[10px] text-neutral-500 font-bold uppercase">{shot.timestamp}</p>
-                            <p className="text-xs font-bold text-white">Count: {shot.count} People</p>
+                            <p className="text-xs font-bold text-white">Count: {formatCounts(shot.counts)}</p>
+                            {shot.reason && <p className="text-[10px] font-bold text-red-400 uppercase">{shot.reason}</p>}
                           </div>
-                          <div className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+                          <label className="flex items-center gap-1.5 text-[10px] text-neutral-500 font-bold uppercase cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={reportShotIds.includes(shot.id)}
+                              onChange={() => setReportShotIds(prev => prev.includes(shot.id) ? prev.filter(id => id !== shot.id) : [...prev, shot.id])}
+                              className="accent-emerald-500"
+                            />
+                            Report
+                          </label>
                         </div>
                       </div>
                     ))
@@ -706,20 +2144,58 @@ const App: React.FC = () => {
       </main>
 
       {/* Alert Banner */}
-      {isMonitoring && stats.currentCount >= threshold && (
-        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[100] w-full max-w-lg px-6">
-          <div className="bg-red-600 text-white p-4 rounded-2xl shadow-2xl flex items-center justify-between border-2 border-white/20 animate-bounce">
-            <div className="flex items-center gap-3">
-              <div className="bg-white/20 p-2 rounded-xl">
-                <AlertTriangle className="w-6 h-6" />
-              </div>
-              <div>
-                <h4 className="text-sm font-black uppercase tracking-wider">Crowd Warning</h4>
-                <p className="text-xs font-bold text-white/80">Threshold of {threshold} exceeded in primary zone.</p>
+      {(bannerAlerts.length > 0 || breachForecastMinutes !== null) && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[100] w-full max-w-lg px-6 flex flex-col gap-3">
+          {breachForecastMinutes !== null && (
+            <div className="bg-amber-500 text-black p-4 rounded-2xl shadow-2xl flex items-center justify-between border-2 border-white/20">
+              <div className="flex items-center gap-3">
+                <div className="bg-black/10 p-2 rounded-xl">
+                  <TrendingUp className="w-6 h-6" />
+                </div>
+                <div>
+                  <h4 className="text-sm font-black uppercase tracking-wider">Breach Forecast</h4>
+                  <p className="text-xs font-bold text-black/70">Predicted breach of {threshold} in ~{breachForecastMinutes} min.</p>
+                </div>
               </div>
+              <span className="text-3xl font-mono font-black">{personCount}</span>
             </div>
-            <span className="text-3xl font-mono font-black">{stats.currentCount}</span>
-          </div>
+          )}
+          {bannerAlerts.map(alert => {
+            const incident = incidents.find(i => i.key === alert.key && i.state !== 'resolved');
+            // Acknowledged and snoozed alerts stay on screen but stop demanding attention
+            const quiet = incident !== undefined && incident.state !== 'open';
+            return (
+              <div key={alert.key} className={`${quiet ? 'bg-red-900' : 'bg-red-600 animate-bounce hover:animate-none'} text-white p-4 rounded-2xl shadow-2xl border-2 border-white/20 space-y-3`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl">
+                      <AlertTriangle className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-black uppercase tracking-wider">{alert.title}</h4>
+                      <p className="text-xs font-bold text-white/80">{alert.detail}</p>
+                      {incident?.state === 'acknowledged' && (
+                        <p className="text-[10px] font-bold uppercase text-white/60">Acknowledged by {incident.acknowledgedBy}</p>
+                      )}
+                      {incident?.state === 'snoozed' && (
+                        <p className="text-[10px] font-bold uppercase text-white/60">Snoozed until {new Date(incident.snoozedUntil!).toLocaleTimeString()}</p>
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-3xl font-mono font-black">{alert.count}</span>
+                </div>
+                {incident && (
+                  <IncidentActions
+                    incident={incident}
+                    operator={operatorName}
+                    onAcknowledge={(name, note) => handleIncidentAcknowledge(incident.id, name, note)}
+                    onSnooze={(minutes) => handleIncidentSnooze(incident.id, minutes)}
+                    onResolve={(name) => handleIncidentResolve(incident.id, name)}
+                  />
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,223 @@
+#!/usr/bin/env node
+// Counts people in a video file or a directory of images without a browser,
+// using the same counting core as the app, and writes the count timeline and
+// alert events as a session bundle (JSON) or CSV. See docs/cli.md.
+
+import { parseArgs } from 'node:util';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Tensor3D } from '@tensorflow/tfjs-node';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { ClassTarget, DetectionSpeed, SessionRecord } from '../types';
+import { CounterEvent, CounterSettings, createCounter, DEFAULT_COUNTER_SETTINGS, describeEvent } from '../utils/counter';
+import { BUNDLE_SCHEMA, buildSessionBundle, seriesToCsv, thresholdBreaches, toCsv } from '../utils/export';
+import { CLASS_COLORS } from '../utils/classes';
+import { MAX_BOXES, MIN_SCORE } from '../utils/models';
+import { Frame, imageFrames, videoFrames } from './frames';
+
+const USAGE = `Usage: dx-count <video file | image directory> [options]
+
+  --settings <file>     Session bundle exported from the app, or a JSON object with any of
+                        threshold, confidence, classTargets, zones, tripwires, dwellLimit, rules
+  --confidence <0-1>    Minimum detection score (default ${DEFAULT_COUNTER_SETTINGS.confidence})
+  --threshold <n>       Crowd threshold (default ${DEFAULT_COUNTER_SETTINGS.threshold})
+  --classes <list>      Extra classes to count, e.g. backpack,car:5 (class:threshold, default 1)
+  --interval <s>        Seconds between analysed video frames, or between images (default 1)
+  --start <time>        Wall-clock time of the first frame, ISO 8601 (default: the file's modification time)
+  --model <name>        coco-ssd-lite or coco-ssd (default coco-ssd-lite)
+  --model-url <url>     Load the model from here instead, e.g. file:///models/ssd/model.json
+  --ffmpeg <path>       ffmpeg binary for video files (default ffmpeg)
+  --format <json|csv>   Output format (default json)
+  --out <file>          Write the result here instead of stdout
+  --events <file>       With --format csv, write the alert events to this CSV file
+  --detections          Keep per-person boxes in JSON samples
+  --fail-on-breach      Exit with code 3 if the count reached the threshold
+  --quiet               No progress on stderr
+`;
+
+const MODEL_BASES: Record<string, cocoSsd.ObjectDetectionBaseModel> = {
+  'coco-ssd-lite': 'lite_mobilenet_v2',
+  'coco-ssd': 'mobilenet_v2'
+};
+
+class UsageError extends Error {}
+
+const numberOption = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number`);
+  return parsed;
+};
+
+const parseClasses = (list: string): ClassTarget[] =>
+  list.split(',').map(item => item.trim()).filter(Boolean).map((item, i) => {
+    const [name, threshold] = item.split(':');
+    return { class: name, color: CLASS_COLORS[i % CLASS_COLORS.length], threshold: threshold ? Number(threshold) : 1 };
+  });
+
+// Settings file fields, then command-line overrides, then the app's defaults
+const loadSettings = async (values: Record<string, string | boolean | undefined>): Promise<CounterSettings> => {
+  let fromFile: Partial<CounterSettings> = {};
+  if (typeof values.settings === 'string') {
+    const json = JSON.parse(await readFile(values.settings, 'utf8'));
+    fromFile = json.schema === BUNDLE_SCHEMA ? json.settings : json;
+  }
+  return {
+    confidence: numberOption(values.confidence as string | undefined, 'confidence') ?? fromFile.confidence ?? DEFAULT_COUNTER_SETTINGS.confidence,
+    threshold: numberOption(values.threshold as string | undefined, 'threshold') ?? fromFile.threshold ?? DEFAULT_COUNTER_SETTINGS.threshold,
+    classTargets: typeof values.classes === 'string' ? parseClasses(values.classes) : fromFile.classTargets ?? DEFAULT_COUNTER_SETTINGS.classTargets,
+    zones: fromFile.zones ?? DEFAULT_COUNTER_SETTINGS.zones,
+    tripwires: fromFile.tripwires ?? DEFAULT_COUNTER_SETTINGS.tripwires,
+    dwellLimit: fromFile.dwellLimit ?? DEFAULT_COUNTER_SETTINGS.dwellLimit,
+    rules: fromFile.rules ?? DEFAULT_COUNTER_SETTINGS.rules
+  };
+};
+
+// Flat, JSON-friendly form of an event; rules are referred to by name
+const eventRecord = (event: CounterEvent, t: number, startTime: number, settings: CounterSettings) => {
+  const { message, type } = describeEvent(event, settings);
+  const { kind, ...fields } = event;
+  const details = 'rule' in fields ? { ...fields, rule: fields.rule.name } : fields;
+  return { t: new Date(t).toISOString(), elapsedSeconds: (t - startTime) / 1000, kind, type, message, ...details };
+};
+
+// parseArgs' own complaints, such as an unknown option, are usage errors like ours
+const parseOptions = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        settings: { type: 'string' },
+        confidence: { type: 'string' },
+        threshold: { type: 'string' },
+        classes: { type: 'string' },
+        interval: { type: 'string' },
+        start: { type: 'string' },
+        model: { type: 'string', default: 'coco-ssd-lite' },
+        'model-url': { type: 'string' },
+        ffmpeg: { type: 'string', default: 'ffmpeg' },
+        format: { type: 'string', default: 'json' },
+        out: { type: 'string' },
+        events: { type: 'string' },
+        detections: { type: 'boolean', default: false },
+        'fail-on-breach': { type: 'boolean', default: false },
+        quiet: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION' || code === 'ERR_PARSE_ARGS_INVALID_OPTION_VALUE') {
+      throw new UsageError((err as Error).message);
+    }
+    throw err;
+  }
+};
+
+const run = async () => {
+  const { values, positionals } = parseOptions();
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const [source] = positionals;
+  if (!source) throw new UsageError('No video file or image directory given');
+  if (values.format !== 'json' && values.format !== 'csv') throw new UsageError('--format must be json or csv');
+  const base = MODEL_BASES[values.model];
+  if (!base) throw new UsageError(`--model must be one of ${Object.keys(MODEL_BASES).join(', ')}`);
+  const interval = numberOption(values.interval, 'interval') ?? 1;
+  if (interval <= 0) throw new UsageError('--interval must be positive');
+
+  const settings = await loadSettings(values);
+  const info = await stat(source);
+  const startTime = values.start ? Date.parse(values.start) : info.mtimeMs;
+  if (Number.isNaN(startTime)) throw new UsageError('--start must be an ISO 8601 time');
+  const log = (message: string) => {
+    if (!values.quiet) process.stderr.write(`${message}\n`);
+  };
+
+  // Loaded late so --help and usage errors work without the native TensorFlow binding
+  const tf = await import('@tensorflow/tfjs-node').catch(err => {
+    throw new Error(`@tensorflow/tfjs-node could not be loaded (${err.message}); run npm install on this machine`);
+  });
+  log(`Loading ${values.model} on ${tf.getBackend()}...`);
+  const model = await cocoSsd.load({ base, modelUrl: values['model-url'] });
+
+  // Tracks must outlive the gap between analysed frames, and a missed detection or two, or people get new IDs
+  const counter = createCounter({ maxCoastMs: Math.max(1500, 2.5 * interval * 1000) });
+  const session: SessionRecord = {
+    id: `${startTime}-cli`,
+    source: path.basename(source),
+    startTime,
+    endTime: null,
+    settings: {
+      threshold: settings.threshold,
+      confidence: settings.confidence,
+      detectionSpeed: DetectionSpeed.NORMAL,
+      classTargets: settings.classTargets,
+      soundEnabled: false,
+      dwellLimit: settings.dwellLimit,
+      zones: settings.zones,
+      tripwires: settings.tripwires
+    },
+    series: [],
+    logs: [],
+    peakCount: 0,
+    lineCounts: {}
+  };
+  const events: ReturnType<typeof eventRecord>[] = [];
+
+  const frames: AsyncGenerator<Frame> = info.isDirectory()
+    ? imageFrames(source, interval)
+    : videoFrames(source, interval, values.ffmpeg);
+  for await (const frame of frames) {
+    const image = tf.node.decodeImage(frame.data, 3, 'int32', false) as Tensor3D;
+    const predictions = await model.detect(image, MAX_BOXES, MIN_SCORE);
+    image.dispose();
+
+    const t = startTime + frame.position * 1000;
+    const result = counter.process(predictions, settings, frame.position * 1000, t);
+    const { detections, ...sample } = result.sample;
+    session.series.push(values.detections ? { ...sample, detections } : sample);
+    session.peakCount = Math.max(session.peakCount, result.count);
+    result.events.forEach(event => {
+      if (event.kind === 'crossing') {
+        const current = session.lineCounts[event.lineId] ?? { in: 0, out: 0 };
+        session.lineCounts[event.lineId] = { ...current, [event.direction]: current[event.direction] + 1 };
+      }
+      const record = eventRecord(event, t, startTime, settings);
+      events.push(record);
+      session.logs.push({ id: `${events.length}`, time: new Date(t).toLocaleTimeString(), message: record.message, type: record.type });
+    });
+    log(`${frame.name} (${frame.position.toFixed(1)} s): ${result.count} ${result.count === 1 ? 'person' : 'people'}`);
+  }
+  session.endTime = session.series[session.series.length - 1]?.t ?? startTime;
+  model.dispose();
+
+  const output = values.format === 'json'
+    ? JSON.stringify({ ...buildSessionBundle(session), events }, null, 2)
+    : seriesToCsv(session);
+  if (values.out) await writeFile(values.out, output);
+  else process.stdout.write(output);
+  if (values.format === 'csv' && values.events) {
+    await writeFile(values.events, toCsv([
+      ['timestamp', 'elapsed_s', 'kind', 'type', 'message'],
+      ...events.map(e => [e.t, e.elapsedSeconds.toFixed(3), e.kind, e.type, e.message])
+    ]));
+  }
+
+  const breaches = thresholdBreaches(session.series, settings.threshold);
+  log(`${session.series.length} frames, peak ${session.peakCount}, ${breaches.length} threshold breach${breaches.length === 1 ? '' : 'es'}, ${events.length} events`);
+  return values['fail-on-breach'] && breaches.length > 0 ? 3 : 0;
+};
+
+run().then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    process.stderr.write(`dx-count: ${err instanceof Error ? err.message : err}\n`);
+    if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  }
+);
@@ -0,0 +1,71 @@
+import { spawn } from 'node:child_process';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createJpegSplitter } from '../utils/jpeg';
+
+export interface Frame {
+  // Seconds from the start of the source
+  position: number;
+  name: string;
+  // Encoded image (JPEG, PNG, BMP or GIF)
+  data: Uint8Array;
+}
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.bmp', '.gif']);
+
+// Images in file-name order (numbers sorted naturally), `interval` seconds apart
+export async function* imageFrames(dir: string, interval: number): AsyncGenerator<Frame> {
+  const names = (await readdir(dir))
+    .filter(name => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (names.length === 0) throw new Error(`No images in ${dir}`);
+  for (let i = 0; i < names.length; i++) {
+    yield { position: i * interval, name: names[i], data: await readFile(path.join(dir, names[i])) };
+  }
+}
+
+/**
+ * One frame every `interval` seconds of a video file, decoded by ffmpeg and
+ * piped back as JPEGs. Anything ffmpeg can open works, including
+ * formats browsers can't play.
+ */
+export async function* videoFrames(file: string, interval: number, ffmpegPath: string): AsyncGenerator<Frame> {
+  const ffmpeg = spawn(ffmpegPath, [
+    '-loglevel', 'error',
+    '-i', file,
+    '-an',
+    '-vf', `fps=1/${interval}`,
+    '-f', 'image2pipe',
+    '-c:v', 'mjpeg',
+    '-q:v', '3',
+    'pipe:1'
+  ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+  let stderr = '';
+  ffmpeg.stderr.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-500);
+  });
+  // Resolves with an error message, or null once ffmpeg has finished cleanly
+  const finished = new Promise<string | null>(resolve => {
+    ffmpeg.on('error', (err: NodeJS.ErrnoException) => resolve(
+      err.code === 'ENOENT' ? `${ffmpegPath} not found; install ffmpeg or pass --ffmpeg` : err.message
+    ));
+    ffmpeg.on('close', code => resolve(code === 0 ? null : stderr.trim() || `ffmpeg exited with code ${code}`));
+  });
+
+  const splitter = createJpegSplitter();
+  let index = 0;
+  try {
+    for await (const chunk of ffmpeg.stdout) {
+      for (const data of splitter.push(chunk)) {
+        yield { position: index * interval, name: `frame ${index + 1}`, data };
+        index++;
+      }
+    }
+    const failure = await finished;
+    if (failure) throw new Error(failure);
+  } finally {
+    // Also stops ffmpeg when the consumer gives up early
+    ffmpeg.kill();
+  }
+}
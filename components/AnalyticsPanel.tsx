@@ -0,0 +1,246 @@
+import React, { useMemo } from 'react';
+import { TrendingUp } from 'lucide-react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { ClassTarget, Zone } from '../types';
+import { Aggregator, Resolution, TimeRange, TIME_RANGES } from '../utils/aggregation';
+import { FORECAST_HORIZONS, ForecastPoint } from '../utils/forecast';
+import { formatTimestamp } from '../utils/format';
+
+interface AnalyticsPanelProps {
+  aggregator: Aggregator;
+  // Bumped by the parent once a second; the aggregator itself is mutable
+  refreshKey: number;
+  timeRange: TimeRange;
+  threshold: number;
+  zones: Zone[];
+  classTargets: ClassTarget[];
+  // Projected whole-frame count, continuing from the last bucket
+  forecast: ForecastPoint[];
+  forecastMinutes: number;
+  onTimeRangeChange: (range: TimeRange) => void;
+  onForecastMinutesChange: (minutes: number) => void;
+}
+
+const bucketLabel = (start: number, resolution: Resolution) => {
+  const date = new Date(start);
+  if (resolution === '1s') return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  if (resolution === '1h') return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
+  aggregator,
+  refreshKey,
+  timeRange,
+  threshold,
+  zones,
+  classTargets,
+  forecast,
+  forecastMinutes,
+  onTimeRangeChange,
+  onForecastMinutesChange
+}) => {
+  const range = TIME_RANGES.find(r => r.id === timeRange) ?? TIME_RANGES[0];
+
+  const { data, rangeStats, hourly, summary } = useMemo(() => {
+    const since = Date.now() - range.spanMs;
+    const overall = aggregator.series(range.resolution, 'count', since);
+    const breakdowns = [
+      ...zones.map(z => `zone:${z.id}`),
+      ...classTargets.map(t => `class:${t.class}`)
+    ].map(key => [key, new Map(aggregator.series(range.resolution, key, since).map(b => [b.start, round(b.avg)]))] as const);
+
+    const samples = overall.reduce((sum, b) => sum + b.samples, 0);
+    const actual = overall.map(b => ({
+      start: b.start,
+      avg: round(b.avg),
+      band: [b.min, b.max],
+      p95: b.p95,
+      ...Object.fromEntries(breakdowns.map(([key, values]) => [key, values.get(b.start) ?? 0]))
+    }));
+    // The dashed forecast starts at the last measured point so the two lines join
+    const last = actual[actual.length - 1];
+    const data = last && forecast.length > 0
+      ? [
+          ...actual.slice(0, -1),
+          { ...last, forecast: last.avg, forecastBand: [last.avg, last.avg] },
+          ...forecast.map(p => ({ start: p.t, forecast: p.value, forecastBand: [p.lower, p.upper] }))
+        ]
+      : actual;
+    return {
+      data,
+      rangeStats: {
+        avg: samples > 0 ? overall.reduce((sum, b) => sum + b.avg * b.samples, 0) / samples : 0,
+        max: overall.reduce((max, b) => Math.max(max, b.max), 0),
+        // Upper bound across buckets; exact within each bucket
+        p95: overall.reduce((max, b) => Math.max(max, b.p95), 0)
+      },
+      hourly: aggregator.series('1h', 'count').slice(-24).reverse(),
+      summary: aggregator.summary()
+    };
+    // refreshKey stands in for the aggregator's internal state
+  }, [aggregator, refreshKey, range, zones, classTargets, forecast]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-black uppercase tracking-widest text-neutral-400 flex items-center gap-2">
+          <TrendingUp className="w-3 h-3" /> Population Trend
+        </h4>
+        <div className="flex gap-1 items-center">
+          {TIME_RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => onTimeRangeChange(r.id)}
+              className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase transition-colors ${timeRange === r.id ? 'bg-emerald-500/20 text-emerald-400' : 'text-neutral-500 hover:text-neutral-300'}`}
+              title={`Last ${r.label}, ${r.resolution} buckets`}
+            >
+              {r.id}
+            </button>
+          ))}
+          <div className="w-px h-4 bg-neutral-800 mx-1" />
+          <select
+            value={forecastMinutes}
+            onChange={(e) => onForecastMinutesChange(Number(e.target.value))}
+            className="bg-transparent text-[10px] font-bold uppercase text-neutral-500 focus:outline-none"
+            title="Forecast horizon"
+          >
+            {FORECAST_HORIZONS.map(m => <option key={m} value={m}>+{m} min</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="h-48 w-full bg-neutral-950/50 rounded-xl p-2 border border-neutral-800">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#262626" vertical={false} />
+            <XAxis dataKey="start" type="number" scale="time" domain={['dataMin', 'dataMax']} hide />
+            <YAxis domain={[0, 'auto']} hide />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', fontSize: '10px' }}
+              itemStyle={{ color: '#10b981' }}
+              labelFormatter={(start) => bucketLabel(Number(start), range.resolution)}
+            />
+            <ReferenceLine y={threshold} stroke="#ef4444" strokeDasharray="6 4" />
+            <Area
+              type="monotone"
+              name="Min–Max"
+              dataKey="band"
+              stroke="none"
+              fill="#10b981"
+              fillOpacity={0.15}
+              isAnimationActive={false}
+            />
+            <Area
+              type="monotone"
+              name="Forecast Range"
+              dataKey="forecastBand"
+              stroke="none"
+              fill="#f59e0b"
+              fillOpacity={0.12}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              name="Forecast"
+              dataKey="forecast"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              name="Average"
+              dataKey="avg"
+              stroke="#10b981"
+              strokeWidth={3}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {zones.map(zone => (
+              <Line
+                key={zone.id}
+                type="monotone"
+                name={zone.name}
+                dataKey={`zone:${zone.id}`}
+                stroke={zone.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {classTargets.map(target => (
+              <Line
+                key={target.class}
+                type="monotone"
+                name={target.class}
+                dataKey={`class:${target.class}`}
+                stroke={target.color}
+                strokeWidth={2}
+                strokeDasharray="4 2"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'Avg', value: round(rangeStats.avg) },
+          { label: 'Max', value: rangeStats.max },
+          { label: 'P95', value: rangeStats.p95 },
+          { label: 'Session Avg', value: round(summary.avgCount) }
+        ].map(m => (
+          <div key={m.label} className="bg-neutral-800/30 p-2 rounded-xl border border-neutral-700/50">
+            <span className="text-[9px] text-neutral-500 uppercase font-black">{m.label}</span>
+            <p className="text-sm font-mono font-bold text-white">{m.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex items-center justify-between p-3 bg-neutral-800/30 rounded-xl border border-neutral-700/50">
+          <span className="text-[10px] text-neutral-400 font-bold uppercase">Above Threshold</span>
+          <span className="font-mono text-sm text-red-400">{formatTimestamp(summary.timeAboveMs / 1000)}</span>
+        </div>
+        <div className="flex items-center justify-between p-3 bg-neutral-800/30 rounded-xl border border-neutral-700/50">
+          <span className="text-[10px] text-neutral-400 font-bold uppercase">Breaches</span>
+          <span className="font-mono text-sm text-white">{summary.breaches}</span>
+        </div>
+      </div>
+
+      {hourly.length > 0 && (
+        <div className="bg-neutral-950/50 rounded-xl border border-neutral-800 divide-y divide-neutral-800 text-xs">
+          <div className="grid grid-cols-3 px-3 py-2 text-[10px] text-neutral-500 font-black uppercase">
+            <span>Hour</span><span className="text-right">Avg</span><span className="text-right">Peak</span>
+          </div>
+          {hourly.map(h => (
+            <div key={h.start} className="grid grid-cols-3 px-3 py-1.5 font-mono">
+              <span className="text-neutral-400">{bucketLabel(h.start, '1h')}</span>
+              <span className="text-right text-white">{round(h.avg)}</span>
+              <span className={`text-right ${h.max >= threshold ? 'text-red-400' : 'text-white'}`}>{h.max}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileVideo, Play, Square } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { PrivacySettings } from '../types';
+import { DetectionScheduler } from '../utils/scheduler';
+import { analyzeVideoFile, BatchSample } from '../utils/batch';
+import { createPrivacyMask, runPrivacyLoop } from '../utils/privacy';
+import { formatTimestamp } from '../utils/format';
+
+interface BatchAnalysisProps {
+  scheduler: DetectionScheduler | null;
+  confidence: number;
+  threshold: number;
+  privacy: PrivacySettings;
+  showRaw: boolean;
+  onLog: (message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
+}
+
+const SAMPLE_INTERVALS = [0.5, 1, 2, 5, 10];
+
+const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ scheduler, confidence, threshold, privacy, showRaw, onLog }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [sampleInterval, setSampleInterval] = useState(1);
+  const [progress, setProgress] = useState(0);
+  const [samples, setSamples] = useState<BatchSample[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const playerRef = useRef<HTMLVideoElement>(null);
+  const privacyCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Never updated: samples keep no boxes, so the whole frame stays masked
+  const privacyMaskRef = useRef(createPrivacyMask());
+  const privacyRef = useRef(privacy);
+  privacyRef.current = privacy;
+  const masked = privacy.enabled && !showRaw;
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    if (fileUrl) URL.revokeObjectURL(fileUrl);
+  }, [fileUrl]);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!fileUrl || !masked || !player || !privacyCanvasRef.current) return;
+    return runPrivacyLoop(privacyCanvasRef.current, player, privacyMaskRef.current, () => privacyRef.current);
+  }, [fileUrl, masked]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    abortRef.current?.abort();
+    setFile(selected);
+    setFileUrl(URL.createObjectURL(selected));
+    setSamples([]);
+    setProgress(0);
+  };
+
+  const handleRun = async () => {
+    if (!file || !scheduler) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setSamples([]);
+    setProgress(0);
+    onLog(`Batch analysis started: ${file.name}`, 'info');
+    const started = Date.now();
+
+    try {
+      const result = await analyzeVideoFile(file, scheduler, {
+        sampleInterval,
+        confidence,
+        signal: controller.signal,
+        onProgress: (fraction, partial) => {
+          setProgress(fraction);
+          setSamples([...partial]);
+        }
+      });
+      const peak = result.reduce((max, s) => Math.max(max, s.count), 0);
+      onLog(`Batch analysis of ${file.name} finished in ${Math.round((Date.now() - started) / 1000)}s. Peak count ${peak}.`, 'success');
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        onLog('Batch analysis cancelled.', 'warning');
+      } else {
+        console.error('Batch analysis failed:', err);
+        onLog(`Batch analysis of ${file.name} failed: ${(err as Error).message}.`, 'error');
+      }
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (!playerRef.current) return;
+    playerRef.current.currentTime = time;
+    playerRef.current.pause();
+  };
+
+  const breaches = samples.filter(s => s.count >= threshold).length;
+
+  return (
+    <div className="bg-neutral-900 rounded-2xl border border-neutral-800 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <FileVideo className="w-5 h-5 text-emerald-500" />
+          <h3 className="text-lg font-bold">Batch Analysis</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 cursor-pointer bg-neutral-800 hover:bg-neutral-700 px-3 py-2 rounded-lg text-sm transition-all max-w-[14rem]">
+            <span className="truncate">{file ? file.name : 'Choose video...'}</span>
+            <input type="file" className="hidden" accept="video/*" onChange={handleFile} disabled={isRunning} />
+          </label>
+          <select
+            value={sampleInterval}
+            onChange={(e) => setSampleInterval(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-neutral-800 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-emerald-500"
+            title="Sampling interval"
+          >
+            {SAMPLE_INTERVALS.map(v => <option key={v} value={v}>Every {v}s</option>)}
+          </select>
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-2 bg-neutral-800 hover:bg-neutral-700 text-white px-3 py-2 rounded-lg text-sm font-medium transition-all"
+            >
+              <Square className="w-4 h-4" /> Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!file || !scheduler}
+              className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg text-sm font-medium transition-all"
+            >
+              <Play className="w-4 h-4" /> Analyse
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(isRunning || progress > 0) && (
+        <div className="mb-6">
+          <div className="flex justify-between text-[10px] text-neutral-500 font-bold uppercase mb-1">
+            <span>{isRunning ? 'Analysing' : 'Complete'}</span>
+            <span className="font-mono">{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {fileUrl && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* While masked the controls are hidden with the video; the timeline still seeks */}
+          <div className="relative aspect-video bg-black rounded-xl overflow-hidden">
+            <video ref={playerRef} src={fileUrl} controls={!masked} muted className={`w-full h-full ${masked ? 'invisible' : ''}`} />
+            <canvas ref={privacyCanvasRef} className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${masked ? '' : 'hidden'}`} />
+          </div>
+          <div className="flex flex-col gap-2">
+            <div className="flex justify-between text-[10px] text-neutral-500 font-bold uppercase">
+              <span>Count Timeline</span>
+              <span>{breaches} samples over threshold</span>
+            </div>
+            <div className="flex-1 min-h-[10rem] bg-neutral-950/50 rounded-xl p-2 border border-neutral-800">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={samples}
+                  onClick={(state) => {
+                    const sample = samples[Number(state?.activeTooltipIndex)];
+                    if (sample) seekTo(sample.time);
+                  }}
+                  className="cursor-pointer"
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#262626" vertical={false} />
+                  <XAxis dataKey="time" tickFormatter={formatTimestamp} tick={{ fontSize: 9, fill: '#737373' }} minTickGap={30} />
+                  <YAxis allowDecimals={false} width={24} tick={{ fontSize: 9, fill: '#737373' }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', fontSize: '10px' }}
+                    itemStyle={{ color: '#10b981' }}
+                    labelFormatter={(t) => formatTimestamp(Number(t))}
+                  />
+                  <ReferenceLine y={threshold} stroke="#ef4444" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="count" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-[10px] text-neutral-600">Click the timeline to jump the player to that moment.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysis;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { LayoutGrid, Plus } from 'lucide-react';
+import { CameraFeed, CameraStats, PrivacySettings } from '../types';
+import { DetectionScheduler } from '../utils/scheduler';
+import { deviceLabel } from '../utils/devices';
+import CameraTile from './CameraTile';
+
+export type GridLayout = '2x2' | '3x3';
+
+const GRID_CAPACITY: Record<GridLayout, number> = { '2x2': 4, '3x3': 9 };
+
+interface CameraGridProps {
+  devices: MediaDeviceInfo[];
+  feeds: CameraFeed[];
+  scheduler: DetectionScheduler | null;
+  confidence: number;
+  threshold: number;
+  soundEnabled: boolean;
+  // Feeds whose incident an operator acknowledged or snoozed
+  silencedFeedIds: string[];
+  privacy: PrivacySettings;
+  // Admin unlocked the unmasked preview
+  showRaw: boolean;
+  onFeedsChange: (feeds: CameraFeed[]) => void;
+  onStats: (feedId: string, stats: CameraStats) => void;
+  onLog: (message: string, type: 'info' | 'alert' | 'error') => void;
+}
+
+const CameraGrid: React.FC<CameraGridProps> = ({
+  devices,
+  feeds,
+  scheduler,
+  confidence,
+  threshold,
+  soundEnabled,
+  silencedFeedIds,
+  privacy,
+  showRaw,
+  onFeedsChange,
+  onStats,
+  onLog
+}) => {
+  const [layout, setLayout] = useState<GridLayout>('2x2');
+  const [selectedDevice, setSelectedDevice] = useState('');
+  const capacity = GRID_CAPACITY[layout];
+  const available = devices.filter(d => !feeds.some(f => f.deviceId === d.deviceId));
+  const deviceId = available.some(d => d.deviceId === selectedDevice) ? selectedDevice : available[0]?.deviceId ?? '';
+
+  const addFeed = () => {
+    const index = devices.findIndex(d => d.deviceId === deviceId);
+    if (index < 0 || feeds.length >= capacity) return;
+    onFeedsChange([...feeds, {
+      id: Math.random().toString(36).substr(2, 9),
+      deviceId,
+      label: deviceLabel(devices[index], index),
+      threshold
+    }]);
+  };
+
+  return (
+    <div className="bg-neutral-900 rounded-2xl border border-neutral-800 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-emerald-500" />
+          <h3 className="text-lg font-bold">Camera Grid</h3>
+          <span className="text-xs text-neutral-500 font-mono">{feeds.length}/{capacity}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={layout}
+            onChange={(e) => {
+              const next = e.target.value as GridLayout;
+              setLayout(next);
+              if (feeds.length > GRID_CAPACITY[next]) onFeedsChange(feeds.slice(0, GRID_CAPACITY[next]));
+            }}
+            className="bg-neutral-800 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-emerald-500"
+          >
+            <option value="2x2">2 x 2</option>
+            <option value="3x3">3 x 3</option>
+          </select>
+          <select
+            value={deviceId}
+            onChange={(e) => setSelectedDevice(e.target.value)}
+            className="bg-neutral-800 border border-neutral-700 rounded-lg p-2 text-sm max-w-[12rem] focus:outline-none focus:border-emerald-500"
+          >
+            {available.length === 0 && <option value="">No free cameras</option>}
+            {available.map(d => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, devices.indexOf(d))}</option>
+            ))}
+          </select>
+          <button
+            onClick={addFeed}
+            disabled={!scheduler || !deviceId || feeds.length >= capacity}
+            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-2 rounded-lg text-sm font-medium transition-all"
+          >
+            <Plus className="w-4 h-4" /> Add
+          </button>
+        </div>
+      </div>
+
+      {feeds.length === 0 ? (
+        <p className="text-xs text-neutral-600">Add USB cameras to monitor them side by side. All feeds share one detection model.</p>
+      ) : (
+        <div className={`grid gap-3 ${layout === '2x2' ? 'grid-cols-2' : 'grid-cols-3'}`}>
+          {feeds.map(feed => (
+            <CameraTile
+              key={feed.id}
+              feed={feed}
+              scheduler={scheduler}
+              confidence={confidence}
+              soundEnabled={soundEnabled && !silencedFeedIds.includes(feed.id)}
+              privacy={privacy}
+              showRaw={showRaw}
+              onStats={onStats}
+              onThresholdChange={(id, value) => onFeedsChange(feeds.map(f => (f.id === id ? { ...f, threshold: value } : f)))}
+              onRemove={(id) => onFeedsChange(feeds.filter(f => f.id !== id))}
+              onLog={onLog}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraGrid;
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { AlertTriangle, X } from 'lucide-react';
+import { CameraFeed, CameraStats, Detection, PrivacySettings } from '../types';
+import { DetectionScheduler } from '../utils/scheduler';
+import { createPrivacyMask, runPrivacyLoop } from '../utils/privacy';
+import { playAlertSound } from '../utils/audio';
+
+interface CameraTileProps {
+  feed: CameraFeed;
+  scheduler: DetectionScheduler | null;
+  confidence: number;
+  soundEnabled: boolean;
+  privacy: PrivacySettings;
+  showRaw: boolean;
+  onStats: (feedId: string, stats: CameraStats) => void;
+  onThresholdChange: (feedId: string, threshold: number) => void;
+  onRemove: (feedId: string) => void;
+  onLog: (message: string, type: 'info' | 'alert' | 'error') => void;
+}
+
+const CameraTile: React.FC<CameraTileProps> = ({
+  feed,
+  scheduler,
+  confidence,
+  soundEnabled,
+  privacy,
+  showRaw,
+  onStats,
+  onThresholdChange,
+  onRemove,
+  onLog
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const privacyCanvasRef = useRef<HTMLCanvasElement>(null);
+  const privacyMaskRef = useRef(createPrivacyMask());
+  const privacyRef = useRef(privacy);
+  privacyRef.current = privacy;
+  const [isLive, setIsLive] = useState(false);
+  const [stats, setStats] = useState<CameraStats>({ currentCount: 0, peakCount: 0 });
+  const alertingRef = useRef(false);
+  const handlerRef = useRef<(predictions: cocoSsd.DetectedObject[]) => void>(() => {});
+
+  handlerRef.current = (predictions) => {
+    const people = predictions.filter(p => p.class === 'person' && p.score >= confidence);
+    const count = people.length;
+    privacyMaskRef.current.update(people as unknown as Detection[]);
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.strokeStyle = '#10b981';
+      ctx.lineWidth = 3;
+      people.forEach(p => ctx.strokeRect(...p.bbox));
+    }
+
+    const next = { currentCount: count, peakCount: Math.max(stats.peakCount, count) };
+    setStats(next);
+    onStats(feed.id, next);
+
+    const alerting = count >= feed.threshold;
+    if (alerting && !alertingRef.current) {
+      onLog(`Threshold of ${feed.threshold} exceeded on ${feed.label}.`, 'alert');
+    }
+    alertingRef.current = alerting;
+    if (alerting && soundEnabled) playAlertSound();
+  };
+
+  // Open the device and join the shared detection scheduler
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !scheduler) return;
+    let stream: MediaStream | null = null;
+    let unregister: (() => void) | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({
+      video: { deviceId: { exact: feed.deviceId }, width: 1280, height: 720 }
+    }).then(s => {
+      if (cancelled) {
+        s.getTracks().forEach(t => t.stop());
+        return;
+      }
+      stream = s;
+      video.srcObject = s;
+      video.onloadedmetadata = () => {
+        video.play();
+        if (canvasRef.current) {
+          canvasRef.current.width = video.videoWidth;
+          canvasRef.current.height = video.videoHeight;
+        }
+        unregister = scheduler.register({
+          id: feed.id,
+          video,
+          onResult: (predictions) => handlerRef.current(predictions)
+        });
+        setIsLive(true);
+      };
+    }).catch(() => {
+      onLog(`Failed to open ${feed.label}.`, 'error');
+    });
+
+    return () => {
+      cancelled = true;
+      unregister?.();
+      stream?.getTracks().forEach(t => t.stop());
+      video.srcObject = null;
+      setIsLive(false);
+    };
+  }, [feed.deviceId, feed.id, feed.label, scheduler, onLog]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isLive || !privacy.enabled || !video || !privacyCanvasRef.current) return;
+    return runPrivacyLoop(privacyCanvasRef.current, video, privacyMaskRef.current, () => privacyRef.current);
+  }, [isLive, privacy.enabled]);
+
+  const alerting = isLive && stats.currentCount >= feed.threshold;
+  const masked = privacy.enabled && !showRaw;
+
+  return (
+    <div className={`bg-neutral-950 rounded-xl border overflow-hidden flex flex-col ${alerting ? 'border-red-500' : 'border-neutral-800'}`}>
+      <div className="relative aspect-video bg-black">
+        <video ref={videoRef} className={`w-full h-full object-contain ${masked ? 'invisible' : ''}`} muted playsInline />
+        <canvas ref={privacyCanvasRef} className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${masked ? '' : 'hidden'}`} />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />
+        {!isLive && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-neutral-500 font-bold uppercase">Connecting...</div>
+        )}
+        <div className="absolute top-2 left-2 bg-black/60 backdrop-blur px-2 py-1 rounded flex items-center gap-2">
+          {alerting && <AlertTriangle className="w-3 h-3 text-red-500" />}
+          <span className={`text-sm font-mono font-bold ${alerting ? 'text-red-500' : 'text-emerald-400'}`}>{stats.currentCount}</span>
+          <span className="text-[10px] text-neutral-500 font-mono">PEAK {stats.peakCount}</span>
+        </div>
+        <button
+          onClick={() => onRemove(feed.id)}
+          className="absolute top-2 right-2 p-1 rounded bg-black/60 text-neutral-400 hover:text-white"
+          title="Remove camera"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <span className="text-[10px] text-neutral-400 font-bold uppercase truncate">{feed.label}</span>
+        <label className="flex items-center gap-1 text-[10px] text-neutral-500 font-bold uppercase shrink-0">
+          Limit
+          <input
+            type="number" min="1" max="50"
+            value={feed.threshold}
+            onChange={(e) => onThresholdChange(feed.id, Math.max(1, Number(e.target.value)))}
+            className="w-12 bg-neutral-900 border border-neutral-700 rounded px-1.5 py-0.5 text-xs font-mono text-white focus:outline-none focus:border-emerald-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CameraTile;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ClassTarget } from '../types';
+import { CLASS_COLORS } from '../utils/classes';
+
+interface ClassListProps {
+  targets: ClassTarget[];
+  // Classes the current model can report, besides people
+  options: string[];
+  classCounts: Record<string, number>;
+  onChange: (targets: ClassTarget[]) => void;
+}
+
+const ClassList: React.FC<ClassListProps> = ({ targets, options, classCounts, onChange }) => {
+  const [selected, setSelected] = useState('');
+  const addable = options.filter(o => !targets.some(t => t.class === o));
+
+  const update = (name: string, patch: Partial<ClassTarget>) =>
+    onChange(targets.map(t => (t.class === name ? { ...t, ...patch } : t)));
+
+  const add = () => {
+    const name = selected || addable[0];
+    if (!name) return;
+    onChange([...targets, { class: name, color: CLASS_COLORS[targets.length % CLASS_COLORS.length], threshold: 1 }]);
+    setSelected('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {targets.length === 0 && (
+        <p className="text-xs text-neutral-600">Only people are counted. Add classes such as backpack, suitcase, car or bicycle to count them too.</p>
+      )}
+      {targets.map(target => {
+        const count = classCounts[target.class] ?? 0;
+        const available = options.includes(target.class);
+        return (
+          <div key={target.class} className="flex items-center gap-3 bg-neutral-800/50 border border-neutral-700 rounded-lg px-3 py-2">
+            <input
+              type="color"
+              value={target.color}
+              onChange={(e) => update(target.class, { color: e.target.value })}
+              className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+              title="Class colour"
+            />
+            <span className={`flex-1 min-w-0 truncate text-sm font-medium capitalize ${available ? '' : 'text-neutral-500 line-through'}`} title={available ? undefined : 'Not reported by the current model'}>
+              {target.class}
+            </span>
+            <span className={`text-[10px] font-mono ${count >= target.threshold ? 'text-red-400' : 'text-neutral-400'}`}>{count} /</span>
+            <input
+              type="number" min="1" max="50"
+              value={target.threshold}
+              onChange={(e) => update(target.class, { threshold: Math.max(1, Number(e.target.value)) })}
+              className="w-14 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500"
+              title="Class alert threshold"
+            />
+            <button
+              onClick={() => onChange(targets.filter(t => t.class !== target.class))}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+              title="Stop counting this class"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+      {addable.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            className="flex-1 bg-neutral-800 border border-neutral-700 rounded-lg p-2 text-sm capitalize focus:outline-none focus:border-emerald-500"
+          >
+            {addable.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <button
+            onClick={add}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-all"
+          >
+            <Plus className="w-3 h-3" /> Add Class
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClassList;
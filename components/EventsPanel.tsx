@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Play, Trash2, X } from 'lucide-react';
+import { EventClip } from '../types';
+import { deleteEventClip, downloadBlob, listEventClips } from '../utils/sessions';
+import { formatCounts } from '../utils/classes';
+import { formatTimestamp } from '../utils/format';
+
+interface EventsPanelProps {
+  // Bumped by the parent whenever a clip is saved, to refresh the list
+  refreshKey: number;
+}
+
+const EventsPanel: React.FC<EventsPanelProps> = ({ refreshKey }) => {
+  const [clips, setClips] = useState<EventClip[]>([]);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+
+  useEffect(() => {
+    listEventClips().then(setClips).catch(err => console.warn("Could not load event clips:", err));
+  }, [refreshKey]);
+
+  // Object URLs for playback live only as long as the player is open
+  useEffect(() => () => {
+    if (playing) URL.revokeObjectURL(playing.url);
+  }, [playing]);
+
+  const handleDelete = async (id: string) => {
+    await deleteEventClip(id);
+    setClips(prev => prev.filter(c => c.id !== id));
+    if (playing?.id === id) setPlaying(null);
+  };
+
+  if (clips.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-xs text-neutral-600 font-bold uppercase tracking-widest">No events recorded</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {clips.map(clip => (
+        <div key={clip.id} className="bg-neutral-800/50 border border-neutral-700 rounded-xl overflow-hidden">
+          {playing?.id === clip.id && (
+            <div className="relative bg-black">
+              <video src={playing.url} controls autoPlay className="w-full aspect-video" />
+              <button
+                onClick={() => setPlaying(null)}
+                className="absolute top-2 right-2 p-1 rounded-full bg-black/60 text-neutral-300 hover:text-white"
+                title="Close"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          <div className="flex items-center gap-3 px-3 py-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-bold text-white truncate">{clip.reason}</p>
+              <p className="text-[10px] text-neutral-500 font-bold uppercase truncate">
+                {new Date(clip.time).toLocaleString()} · {formatTimestamp(clip.durationMs / 1000)} · trigger at {formatTimestamp(clip.preRollMs / 1000)}
+              </p>
+              <p className="text-[10px] text-neutral-400 font-mono truncate">{formatCounts(clip.counts)}</p>
+            </div>
+            <button
+              onClick={() => setPlaying({ id: clip.id, url: URL.createObjectURL(clip.blob) })}
+              className="p-1.5 rounded text-neutral-400 hover:text-emerald-400 hover:bg-neutral-700"
+              title="Play"
+            >
+              <Play className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => downloadBlob(clip.blob, `DX_Event_${new Date(clip.time).toISOString().replace(/[:.]/g, '-')}.webm`)}
+              className="p-1.5 rounded text-neutral-400 hover:text-white hover:bg-neutral-700"
+              title="Download"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleDelete(clip.id)}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EventsPanel;
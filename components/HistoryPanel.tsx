@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Download, Eye, GitCompare, Trash2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { SessionRecord } from '../types';
+import {
+  deleteSession,
+  exportSession,
+  listSessions,
+  loadSessionScreenshots,
+  storedCounts,
+  toSecondSeries
+} from '../utils/sessions';
+import { formatTimestamp } from '../utils/format';
+import { formatCounts } from '../utils/classes';
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever a session is written, to refresh the list
+  refreshKey: number;
+  activeSessionId: string | null;
+}
+
+type View =
+  | { kind: 'list' }
+  | { kind: 'detail'; session: SessionRecord }
+  | { kind: 'compare'; sessions: [SessionRecord, SessionRecord] };
+
+const COMPARE_COLORS = ['#10b981', '#3b82f6'];
+
+const sessionDuration = (s: SessionRecord) =>
+  ((s.endTime ?? s.series[s.series.length - 1]?.t ?? s.startTime) - s.startTime) / 1000;
+
+const averageCount = (s: SessionRecord) =>
+  s.totals?.avgCount ?? (s.series.length > 0 ? s.series.reduce((sum, x) => sum + x.count, 0) / s.series.length : 0);
+
+const SessionChart: React.FC<{ data: Record<string, number>[]; lines: { key: string; color: string; name: string }[] }> = ({ data, lines }) => (
+  <div className="h-48 w-full bg-neutral-950/50 rounded-xl p-2 border border-neutral-800">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#262626" vertical={false} />
+        <XAxis dataKey="second" tickFormatter={formatTimestamp} tick={{ fontSize: 9, fill: '#737373' }} minTickGap={30} />
+        <YAxis allowDecimals={false} width={24} tick={{ fontSize: 9, fill: '#737373' }} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', fontSize: '10px' }}
+          labelFormatter={(t) => formatTimestamp(Number(t))}
+        />
+        {lines.map(l => (
+          <Line key={l.key} type="monotone" dataKey={l.key} name={l.name} stroke={l.color} strokeWidth={2} dot={false} isAnimationActive={false} connectNulls />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const SessionDetail: React.FC<{ session: SessionRecord; onBack: () => void }> = ({ session, onBack }) => {
+  const [shots, setShots] = useState<{ id: string; url: string; timestamp: string; counts: Record<string, number>; reason?: string }[]>([]);
+
+  useEffect(() => {
+    let urls: string[] = [];
+    let cancelled = false;
+    loadSessionScreenshots(session.id).then(stored => {
+      if (cancelled) return;
+      const loaded = stored.map(shot => ({
+        id: shot.id,
+        timestamp: shot.timestamp,
+        counts: storedCounts(shot),
+        reason: shot.reason,
+        url: URL.createObjectURL(shot.blob)
+      }));
+      urls = loaded.map(s => s.url);
+      setShots(loaded);
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach(u => URL.revokeObjectURL(u));
+    };
+  }, [session.id]);
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-2 text-xs font-bold uppercase text-neutral-400 hover:text-white">
+        <ArrowLeft className="w-4 h-4" /> All Sessions
+      </button>
+      <div>
+        <p className="text-sm font-bold text-white">{new Date(session.startTime).toLocaleString()}</p>
+        <p className="text-[10px] text-neutral-500 uppercase font-bold">{session.source} · read-only</p>
+      </div>
+      <div className="grid grid-cols-3 gap-3 text-center">
+        {[
+          { label: 'Duration', value: formatTimestamp(sessionDuration(session)) },
+          { label: 'Peak', value: session.peakCount },
+          { label: 'Average', value: averageCount(session).toFixed(1) }
+        ].map(m => (
+          <div key={m.label} className="bg-neutral-800/50 p-3 rounded-xl border border-neutral-700">
+            <span className="text-[10px] text-neutral-500 uppercase font-black">{m.label}</span>
+            <p className="text-lg font-mono font-bold text-white">{m.value}</p>
+          </div>
+        ))}
+      </div>
+      <SessionChart
+        data={toSecondSeries(session.series, session.startTime)}
+        lines={[{ key: 'count', color: '#10b981', name: 'Count' }]}
+      />
+      <div className="text-[10px] text-neutral-500 font-bold uppercase">
+        Threshold {session.settings.threshold} · Confidence {Math.round(session.settings.confidence * 100)}% · {session.settings.zones.length} zones · {session.settings.tripwires.length} tripwires
+      </div>
+      {shots.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {shots.map(shot => (
+            <div key={shot.id} className="bg-neutral-800 rounded-lg overflow-hidden border border-neutral-700">
+              <img src={shot.url} alt="Session Capture" className="w-full aspect-video object-cover" />
+              <p className="px-2 py-1 text-[10px] text-neutral-400 font-bold">{shot.timestamp} · {formatCounts(shot.counts)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="space-y-1">
+        {session.logs.slice(0, 50).map(log => (
+          <p key={log.id} className="text-[11px] text-neutral-400"><span className="font-mono text-neutral-600">[{log.time}]</span> {log.message}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SessionCompare: React.FC<{ sessions: [SessionRecord, SessionRecord]; onBack: () => void }> = ({ sessions, onBack }) => {
+  const merged = new Map<number, Record<string, number>>();
+  sessions.forEach((session, i) => {
+    toSecondSeries(session.series, session.startTime).forEach(({ second, count }) => {
+      merged.set(second, { ...(merged.get(second) ?? { second }), [`s${i}`]: count });
+    });
+  });
+  const data = Array.from(merged.values()).sort((a, b) => a.second - b.second);
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-2 text-xs font-bold uppercase text-neutral-400 hover:text-white">
+        <ArrowLeft className="w-4 h-4" /> All Sessions
+      </button>
+      <SessionChart
+        data={data}
+        lines={sessions.map((s, i) => ({ key: `s${i}`, color: COMPARE_COLORS[i], name: new Date(s.startTime).toLocaleString() }))}
+      />
+      <div className="bg-neutral-950/50 rounded-xl border border-neutral-800 divide-y divide-neutral-800 text-xs">
+        <div className="grid grid-cols-4 px-3 py-2 text-[10px] text-neutral-500 font-black uppercase">
+          <span className="col-span-1">Session</span><span>Duration</span><span>Peak</span><span>Avg</span>
+        </div>
+        {sessions.map((s, i) => (
+          <div key={s.id} className="grid grid-cols-4 px-3 py-2 font-mono">
+            <span className="font-sans font-bold truncate" style={{ color: COMPARE_COLORS[i] }}>{new Date(s.startTime).toLocaleDateString()}</span>
+            <span>{formatTimestamp(sessionDuration(s))}</span>
+            <span>{s.peakCount}</span>
+            <span>{averageCount(s).toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, activeSessionId }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [view, setView] = useState<View>({ kind: 'list' });
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(err => console.warn("Could not load session history:", err));
+  }, [refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    setSessions(prev => prev.filter(s => s.id !== id));
+    setSelected(prev => prev.filter(x => x !== id));
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)));
+
+  if (view.kind === 'detail') return <SessionDetail session={view.session} onBack={() => setView({ kind: 'list' })} />;
+  if (view.kind === 'compare') return <SessionCompare sessions={view.sessions} onBack={() => setView({ kind: 'list' })} />;
+
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-xs text-neutral-600 font-bold uppercase tracking-widest">No saved sessions</p>
+      </div>
+    );
+  }
+
+  const comparePair = selected.map(id => sessions.find(s => s.id === id)).filter((s): s is SessionRecord => !!s);
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={() => comparePair.length === 2 && setView({ kind: 'compare', sessions: [comparePair[0], comparePair[1]] })}
+        disabled={comparePair.length !== 2}
+        className="w-full flex items-center justify-center gap-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed py-2 rounded-lg text-xs font-bold uppercase transition-all"
+      >
+        <GitCompare className="w-4 h-4" /> Compare Selected ({comparePair.length}/2)
+      </button>
+      {sessions.map(session => (
+        <div key={session.id} className="flex items-center gap-3 bg-neutral-800/50 border border-neutral-700 rounded-xl px-3 py-2">
+          <input
+            type="checkbox"
+            checked={selected.includes(session.id)}
+            onChange={() => toggleSelected(session.id)}
+            className="accent-emerald-500"
+          />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-bold text-white truncate">{new Date(session.startTime).toLocaleString()}</p>
+            <p className="text-[10px] text-neutral-500 font-bold uppercase truncate">
+              {session.source} · {formatTimestamp(sessionDuration(session))} · peak {session.peakCount}
+              {session.id === activeSessionId && <span className="text-red-400"> · live</span>}
+            </p>
+          </div>
+          <button onClick={() => setView({ kind: 'detail', session })} className="p-1.5 rounded text-neutral-400 hover:text-emerald-400 hover:bg-neutral-700" title="Open">
+            <Eye className="w-4 h-4" />
+          </button>
+          <button onClick={() => exportSession(session)} className="p-1.5 rounded text-neutral-400 hover:text-white hover:bg-neutral-700" title="Export JSON">
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(session.id)}
+            disabled={session.id === activeSessionId}
+            className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 disabled:opacity-30"
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryPanel;
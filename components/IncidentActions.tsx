@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { BellOff, Check, CheckCheck, X } from 'lucide-react';
+import { Incident } from '../types';
+import { SNOOZE_MINUTES } from '../utils/incidents';
+
+interface IncidentActionsProps {
+  incident: Incident;
+  // Name the form starts with, from the last acknowledgement on this machine
+  operator: string;
+  onAcknowledge: (operator: string, note: string) => void;
+  onSnooze: (minutes: number) => void;
+  onResolve: (operator: string) => void;
+}
+
+// Shown on the alert banner and in the Incidents list, so it only uses translucent colours
+const IncidentActions: React.FC<IncidentActionsProps> = ({ incident, operator, onAcknowledge, onSnooze, onResolve }) => {
+  const [mode, setMode] = useState<'none' | 'acknowledge' | 'resolve'>('none');
+  const [name, setName] = useState(operator);
+  const [note, setNote] = useState(incident.note ?? '');
+
+  const open = (next: 'acknowledge' | 'resolve') => {
+    setName(name || operator);
+    setMode(next);
+  };
+
+  const submit = () => {
+    if (!name.trim()) return;
+    if (mode === 'acknowledge') onAcknowledge(name.trim(), note);
+    else onResolve(name.trim());
+    setMode('none');
+  };
+
+  if (mode !== 'none') {
+    return (
+      <form
+        onSubmit={(e) => { e.preventDefault(); submit(); }}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Operator"
+          className="w-28 bg-black/20 border border-white/20 rounded px-2 py-1 text-xs placeholder:text-current placeholder:opacity-50 focus:outline-none focus:border-white/60"
+        />
+        {mode === 'acknowledge' && (
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 min-w-[8rem] bg-black/20 border border-white/20 rounded px-2 py-1 text-xs placeholder:text-current placeholder:opacity-50 focus:outline-none focus:border-white/60"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-black/20 hover:bg-black/30 text-[10px] font-bold uppercase transition-colors disabled:opacity-50"
+        >
+          <Check className="w-3 h-3" /> {mode === 'acknowledge' ? 'Acknowledge' : 'Resolve'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode('none')}
+          className="p-1 rounded hover:bg-black/20 transition-colors"
+          title="Cancel"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {incident.state !== 'acknowledged' && (
+        <button
+          onClick={() => open('acknowledge')}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-black/20 hover:bg-black/30 text-[10px] font-bold uppercase transition-colors"
+          title="Take ownership and silence the sound"
+        >
+          <Check className="w-3 h-3" /> Acknowledge
+        </button>
+      )}
+      {incident.state === 'open' && (
+        <label className="flex items-center gap-1 px-2 py-1 rounded bg-black/20 text-[10px] font-bold uppercase" title="Silence the sound for a while without taking ownership">
+          <BellOff className="w-3 h-3" />
+          <select
+            value=""
+            onChange={(e) => e.target.value && onSnooze(Number(e.target.value))}
+            className="bg-transparent uppercase focus:outline-none cursor-pointer"
+          >
+            <option value="" className="text-black">Snooze</option>
+            {SNOOZE_MINUTES.map(m => <option key={m} value={m} className="text-black">{m} min</option>)}
+          </select>
+        </label>
+      )}
+      <button
+        onClick={() => open('resolve')}
+        className="flex items-center gap-1 px-2 py-1 rounded bg-black/20 hover:bg-black/30 text-[10px] font-bold uppercase transition-colors"
+        title="Close the incident; a new one opens only after the alert clears"
+      >
+        <CheckCheck className="w-3 h-3" /> Resolve
+      </button>
+    </div>
+  );
+};
+
+export default IncidentActions;
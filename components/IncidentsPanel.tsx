@@ -0,0 +1,85 @@
+import React from 'react';
+import { Incident, IncidentState } from '../types';
+import { durationMs, responseMs } from '../utils/incidents';
+import { formatTimestamp } from '../utils/format';
+import IncidentActions from './IncidentActions';
+
+interface IncidentsPanelProps {
+  incidents: Incident[];
+  operator: string;
+  onAcknowledge: (id: string, operator: string, note: string) => void;
+  onSnooze: (id: string, minutes: number) => void;
+  onResolve: (id: string, operator: string) => void;
+}
+
+const STATE_STYLES: Record<IncidentState, string> = {
+  open: 'bg-red-500/10 text-red-400 border-red-500/20',
+  acknowledged: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  snoozed: 'bg-sky-500/10 text-sky-400 border-sky-500/20',
+  resolved: 'bg-neutral-700/30 text-neutral-400 border-neutral-600/40'
+};
+
+const IncidentsPanel: React.FC<IncidentsPanelProps> = ({ incidents, operator, onAcknowledge, onSnooze, onResolve }) => {
+  if (incidents.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-xs text-neutral-600 font-bold uppercase tracking-widest">No incidents</p>
+      </div>
+    );
+  }
+
+  const now = Date.now();
+  const waiting = incidents.filter(i => i.state === 'open').length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-neutral-500 font-bold uppercase">
+        {incidents.length} this session · {waiting} awaiting response
+      </p>
+      {incidents.map(incident => {
+        const response = responseMs(incident);
+        return (
+          <div key={incident.id} className="bg-neutral-800/50 border border-neutral-700 rounded-xl px-3 py-2 space-y-2">
+            <div className="flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-white truncate">{incident.title}</p>
+                <p className="text-[10px] text-neutral-400 truncate">{incident.detail}</p>
+              </div>
+              <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${STATE_STYLES[incident.state]}`}>
+                {incident.state === 'snoozed' ? `Snoozed ${formatTimestamp((incident.snoozedUntil! - now) / 1000)}` : incident.state}
+              </span>
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-[10px] font-bold uppercase text-neutral-500">
+              <div>Opened<span className="block font-mono text-neutral-300">{new Date(incident.openedAt).toLocaleTimeString()}</span></div>
+              <div>Response<span className="block font-mono text-neutral-300">{response !== null ? formatTimestamp(response / 1000) : '–'}</span></div>
+              <div>Duration<span className="block font-mono text-neutral-300">{formatTimestamp(durationMs(incident, now) / 1000)}</span></div>
+              <div>Peak<span className="block font-mono text-neutral-300">{incident.peakCount}</span></div>
+            </div>
+            {(incident.acknowledgedBy || incident.resolvedAt !== undefined) && (
+              <p className="text-[10px] text-neutral-400">
+                {incident.acknowledgedBy && <>Acknowledged by <span className="font-bold text-neutral-300">{incident.acknowledgedBy}</span>{incident.note && <> · “{incident.note}”</>}</>}
+                {incident.acknowledgedBy && incident.resolvedAt !== undefined && ' · '}
+                {incident.resolvedAt !== undefined && (incident.resolvedBy
+                  ? <>Resolved by <span className="font-bold text-neutral-300">{incident.resolvedBy}</span></>
+                  : 'Cleared by itself')}
+              </p>
+            )}
+            {incident.state !== 'resolved' && (
+              <div className="text-neutral-300">
+                <IncidentActions
+                  incident={incident}
+                  operator={operator}
+                  onAcknowledge={(name, note) => onAcknowledge(incident.id, name, note)}
+                  onSnooze={(minutes) => onSnooze(incident.id, minutes)}
+                  onResolve={(name) => onResolve(incident.id, name)}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IncidentsPanel;
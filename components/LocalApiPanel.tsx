@@ -0,0 +1,50 @@
+import React from 'react';
+import { LocalApiSettings } from '../types';
+import { LocalApiStatus } from '../utils/localApi';
+
+interface LocalApiPanelProps {
+  settings: LocalApiSettings;
+  status: LocalApiStatus;
+  onChange: (settings: LocalApiSettings) => void;
+}
+
+const STATUS_STYLES: Record<LocalApiStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+  connected: { label: 'Connected', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  offline: { label: 'Offline', className: 'bg-red-500/10 text-red-400 border-red-500/20' }
+};
+
+const LocalApiPanel: React.FC<LocalApiPanelProps> = ({ settings, status, onChange }) => {
+  const badge = STATUS_STYLES[status];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-neutral-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Publish counts
+        </label>
+        <input
+          type="text" placeholder="http://localhost:8789"
+          value={settings.url}
+          onChange={(e) => onChange({ ...settings, url: e.target.value })}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-emerald-500"
+          title="API server address"
+        />
+        {settings.enabled && (
+          <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${badge.className}`}>{badge.label}</span>
+        )}
+      </div>
+      <p className="text-[10px] text-neutral-600">
+        <span className="font-mono">npm run dev</span> starts the server on this machine; otherwise run <span className="font-mono">npm run api</span>. Other systems can then read the live count from <span className="font-mono">/api/status</span> or subscribe to <span className="font-mono">/api/stream</span>, and change the threshold and confidence with the server's token.
+      </p>
+    </div>
+  );
+};
+
+export default LocalApiPanel;
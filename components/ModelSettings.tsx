@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, Loader2, Upload } from 'lucide-react';
+import { DetectorConfig } from '../types';
+import { BACKEND_OPTIONS, MODEL_OPTIONS } from '../utils/models';
+
+interface ModelSettingsProps {
+  config: DetectorConfig;
+  // Backend actually in use, which may differ from the requested one after a fallback
+  activeBackend: string;
+  loading: boolean;
+  onApply: (config: DetectorConfig, files?: File[]) => void;
+}
+
+const inputClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500';
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ config, activeBackend, loading, onApply }) => {
+  const [draft, setDraft] = useState(config);
+  const [files, setFiles] = useState<File[]>([]);
+
+  useEffect(() => {
+    setDraft(config);
+    setFiles([]);
+  }, [config]);
+
+  const isCustom = draft.model === 'custom';
+  const hasModelJson = files.some(f => f.name.endsWith('.json'));
+  const changed = JSON.stringify(draft) !== JSON.stringify(config) || files.length > 0;
+
+  const apply = () => {
+    const modelJson = files.find(f => f.name.endsWith('.json'));
+    onApply(
+      isCustom && modelJson ? { ...draft, customName: modelJson.name.replace(/\.json$/, '') } : draft,
+      isCustom && hasModelJson ? [modelJson!, ...files.filter(f => f !== modelJson)] : undefined
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {MODEL_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setDraft({ ...draft, model: option.id })}
+            className={`text-left p-2 rounded-lg border transition-all ${draft.model === option.id ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-500'}`}
+          >
+            <div className="text-xs font-bold uppercase">{option.label}</div>
+            <div className="text-[10px] text-neutral-500">{option.description}</div>
+          </button>
+        ))}
+      </div>
+
+      {isCustom && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 cursor-pointer w-fit transition-all">
+            <Upload className="w-3 h-3" />
+            {files.length > 0 ? `${files.length} file(s)` : config.customName ? `Replace ${config.customName}` : 'model.json + weights'}
+            <input
+              type="file"
+              multiple
+              accept=".json,.bin"
+              className="hidden"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            />
+          </label>
+          <textarea
+            value={draft.customLabels}
+            onChange={(e) => setDraft({ ...draft, customLabels: e.target.value })}
+            placeholder={'One label per line, in class order.\npedestrian=person'}
+            rows={4}
+            className={`${inputClass} w-full`}
+          />
+          <p className="text-[10px] text-neutral-500">
+            Expects a TF Object Detection API export. Append <span className="font-mono">=person</span> to a label to count it as a person.
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Cpu className="w-4 h-4 text-neutral-500" />
+        <div className="flex gap-1">
+          {BACKEND_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setDraft({ ...draft, backend: option.id })}
+              className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors ${draft.backend === option.id ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/40' : 'bg-neutral-900 text-neutral-500 border border-neutral-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {activeBackend && activeBackend !== config.backend && (
+          <span className="text-[10px] text-amber-400 font-bold uppercase">Using {activeBackend}</span>
+        )}
+        <button
+          onClick={apply}
+          disabled={!changed || loading || (isCustom && !hasModelJson && !config.customName)}
+          className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-emerald-500 hover:bg-emerald-600 text-black transition-all disabled:opacity-40"
+        >
+          {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+          {loading ? 'Loading' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
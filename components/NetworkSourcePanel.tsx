@@ -0,0 +1,63 @@
+import React from 'react';
+import { Cctv } from 'lucide-react';
+import { NetworkSourceSettings } from '../types';
+import { isRtspUrl } from '../utils/streams';
+
+interface NetworkSourcePanelProps {
+  settings: NetworkSourceSettings;
+  // Monitoring is running, so the source can't be switched
+  disabled: boolean;
+  onChange: (settings: NetworkSourceSettings) => void;
+  onConnect: () => void;
+}
+
+const NetworkSourcePanel: React.FC<NetworkSourcePanelProps> = ({ settings, disabled, onChange, onConnect }) => {
+  const rtsp = isRtspUrl(settings.url);
+  const needsRelay = rtsp || settings.mjpegViaRelay;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text" placeholder="http://camera/video.mjpg or rtsp://camera/stream"
+          value={settings.url}
+          onChange={(e) => onChange({ ...settings, url: e.target.value })}
+          onKeyDown={(e) => e.key === 'Enter' && !disabled && settings.url.trim() && onConnect()}
+          className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          onClick={onConnect}
+          disabled={disabled || !settings.url.trim()}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Cctv className="w-3 h-3" /> Connect
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className={`flex items-center gap-2 text-[10px] font-bold uppercase ${rtsp ? 'text-neutral-600' : 'text-neutral-400 cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={needsRelay}
+            disabled={rtsp}
+            onChange={(e) => onChange({ ...settings, mjpegViaRelay: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Through relay
+        </label>
+        <input
+          type="text" placeholder="http://localhost:8788"
+          value={settings.relayUrl}
+          onChange={(e) => onChange({ ...settings, relayUrl: e.target.value })}
+          disabled={!needsRelay}
+          className="w-48 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-xs font-mono disabled:opacity-50 focus:outline-none focus:border-emerald-500"
+          title="Relay address"
+        />
+      </div>
+      <p className="text-[10px] text-neutral-600">
+        MJPEG cameras are read directly if they allow cross-origin requests. RTSP always needs the relay: run <span className="font-mono">npm run relay</span> on a machine with ffmpeg. Dropped streams reconnect on their own.
+      </p>
+    </div>
+  );
+};
+
+export default NetworkSourcePanel;
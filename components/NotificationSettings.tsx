@@ -0,0 +1,157 @@
+import React from 'react';
+import { Globe, Radio, Send, Trash2 } from 'lucide-react';
+import { DeliveryRecord, NotificationChannel } from '../types';
+import { newChannel } from '../utils/notify';
+
+interface NotificationSettingsProps {
+  channels: NotificationChannel[];
+  deliveries: DeliveryRecord[];
+  onChange: (channels: NotificationChannel[]) => void;
+  onTest: (channel: NotificationChannel) => void;
+}
+
+const inputClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500';
+
+const STATUS_COLORS: Record<DeliveryRecord['status'], string> = {
+  pending: 'text-neutral-400',
+  delivered: 'text-emerald-400',
+  retrying: 'text-amber-400',
+  failed: 'text-red-400'
+};
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ channels, deliveries, onChange, onTest }) => {
+  const update = (id: string, patch: Partial<NotificationChannel>) =>
+    onChange(channels.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const add = (kind: NotificationChannel['kind']) =>
+    onChange([...channels, newChannel(kind, channels.filter(c => c.kind === kind).length + 1)]);
+
+  return (
+    <div className="space-y-3">
+      {channels.length === 0 && (
+        <p className="text-xs text-neutral-500">No channels. Alerts are only shown in the app.</p>
+      )}
+      {channels.map(channel => (
+        <div key={channel.id} className="bg-neutral-800/50 border border-neutral-700 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={channel.enabled}
+              onChange={() => update(channel.id, { enabled: !channel.enabled })}
+              className="accent-emerald-500"
+              title="Enabled"
+            />
+            {channel.kind === 'webhook'
+              ? <Globe className="w-4 h-4 text-neutral-400 shrink-0" />
+              : <Radio className="w-4 h-4 text-neutral-400 shrink-0" />}
+            <input
+              value={channel.name}
+              onChange={(e) => update(channel.id, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+            />
+            <button
+              onClick={() => onTest(channel)}
+              disabled={!channel.url}
+              className="p-1.5 rounded text-neutral-400 hover:text-emerald-400 hover:bg-neutral-700 transition-colors disabled:opacity-40"
+              title="Send test notification"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(channels.filter(c => c.id !== channel.id))}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+              title="Remove channel"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <input
+            value={channel.url}
+            onChange={(e) => update(channel.id, { url: e.target.value.trim() })}
+            placeholder={channel.kind === 'webhook' ? 'https://example.com/hooks/crowd' : 'wss://broker.example.com/mqtt'}
+            className={`${inputClass} w-full`}
+          />
+
+          {channel.kind === 'webhook' ? (
+            <label className="flex items-center gap-2 text-[10px] text-neutral-500 font-bold uppercase">
+              Snapshot
+              <select
+                value={channel.snapshot}
+                onChange={(e) => update(channel.id, { snapshot: e.target.value as NotificationChannel['snapshot'] })}
+                className={inputClass}
+              >
+                <option value="none">None</option>
+                <option value="base64">Base64 in JSON</option>
+                <option value="multipart">Multipart file</option>
+              </select>
+            </label>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={channel.topicPrefix}
+                onChange={(e) => update(channel.id, { topicPrefix: e.target.value.replace(/\/+$/, '') })}
+                placeholder="topic prefix"
+                className={`${inputClass} w-32`}
+              />
+              <input
+                value={channel.username ?? ''}
+                onChange={(e) => update(channel.id, { username: e.target.value })}
+                placeholder="username"
+                className={`${inputClass} w-24`}
+              />
+              <input
+                type="password"
+                value={channel.password ?? ''}
+                onChange={(e) => update(channel.id, { password: e.target.value })}
+                placeholder="password"
+                className={`${inputClass} w-24`}
+              />
+              <label className="flex items-center gap-1 text-[10px] text-neutral-500 font-bold uppercase">
+                <input
+                  type="checkbox"
+                  checked={channel.publishCounts}
+                  onChange={() => update(channel.id, { publishCounts: !channel.publishCounts })}
+                  className="accent-emerald-500"
+                />
+                Counts
+              </label>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => add('webhook')}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-all"
+        >
+          <Globe className="w-3 h-3" /> Add Webhook
+        </button>
+        <button
+          onClick={() => add('mqtt')}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-all"
+        >
+          <Radio className="w-3 h-3" /> Add MQTT
+        </button>
+      </div>
+
+      {deliveries.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          <span className="text-[10px] text-neutral-500 font-bold uppercase">Delivery Log</span>
+          {deliveries.map(d => (
+            <div key={d.id} className="flex gap-2 text-[10px] font-mono">
+              <span className="text-neutral-600 shrink-0">{d.time}</span>
+              <span className={`uppercase font-bold shrink-0 ${STATUS_COLORS[d.status]}`}>{d.status}</span>
+              <span className="text-neutral-400 truncate" title={d.detail}>
+                {d.channelName} · {d.event}{d.attempts > 1 ? ` · try ${d.attempts}` : ''}{d.detail ? ` · ${d.detail}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { LineCounts, Point, TileRegion, Tripwire, Zone } from '../types';
+import { Rect } from '../utils/tiling';
+
+export type EditorMode = 'none' | 'tripwire' | 'zone' | 'tile';
+
+interface OverlayEditorProps {
+  width: number;
+  height: number;
+  mode: EditorMode;
+  tripwires: Tripwire[];
+  lineCounts: Record<string, LineCounts>;
+  zones: Zone[];
+  zoneCounts: Record<string, number>;
+  tileRegions: TileRegion[];
+  onTripwireDrawn: (start: Point, end: Point) => void;
+  onZoneDrawn: (points: Point[]) => void;
+  onTileRegionDrawn: (rect: Rect) => void;
+}
+
+// Maps a pointer event to frame (video pixel) coordinates. The SVG uses the same
+// letterboxing as the object-contain video, so its CTM does all the work.
+const toFramePoint = (e: React.MouseEvent<SVGSVGElement>): Point => {
+  const svg = e.currentTarget;
+  const matrix = svg.getScreenCTM();
+  const pt = svg.createSVGPoint();
+  pt.x = e.clientX;
+  pt.y = e.clientY;
+  const p = matrix ? pt.matrixTransform(matrix.inverse()) : pt;
+  return { x: p.x, y: p.y };
+};
+
+const rectFromCorners = (a: Point, b: Point): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y)
+});
+
+const OverlayEditor: React.FC<OverlayEditorProps> = ({
+  width,
+  height,
+  mode,
+  tripwires,
+  lineCounts,
+  zones,
+  zoneCounts,
+  tileRegions,
+  onTripwireDrawn,
+  onZoneDrawn,
+  onTileRegionDrawn
+}) => {
+  const [anchor, setAnchor] = useState<Point | null>(null);
+  const [vertices, setVertices] = useState<Point[]>([]);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const fontSize = Math.round(height / 36);
+
+  const resetDraft = () => {
+    setAnchor(null);
+    setVertices([]);
+    setCursor(null);
+  };
+
+  // Abandon any half-drawn shape when the tool changes
+  useEffect(() => {
+    resetDraft();
+  }, [mode]);
+
+  const closePolygon = () => {
+    if (vertices.length >= 3) onZoneDrawn(vertices);
+    resetDraft();
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const p = toFramePoint(e);
+    if (mode === 'tripwire' || mode === 'tile') {
+      if (!anchor) {
+        setAnchor(p);
+      } else {
+        if (mode === 'tripwire') onTripwireDrawn(anchor, p);
+        else onTileRegionDrawn(rectFromCorners(anchor, p));
+        resetDraft();
+      }
+    } else if (mode === 'zone') {
+      const first = vertices[0];
+      const last = vertices[vertices.length - 1];
+      // Clicking the first vertex closes the polygon; repeated clicks (double-click) are ignored
+      if (first && vertices.length >= 3 && Math.hypot(p.x - first.x, p.y - first.y) < fontSize) {
+        closePolygon();
+      } else if (!last || Math.hypot(p.x - last.x, p.y - last.y) > 3) {
+        setVertices([...vertices, p]);
+      }
+    }
+  };
+
+  const isDrafting = anchor !== null || vertices.length > 0;
+  const draftRect = mode === 'tile' && anchor && cursor ? rectFromCorners(anchor, cursor) : null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={`absolute inset-0 w-full h-full z-20 ${mode === 'none' ? 'pointer-events-none' : 'cursor-crosshair'}`}
+      onClick={handleClick}
+      onDoubleClick={() => mode === 'zone' && closePolygon()}
+      onMouseMove={(e) => isDrafting && setCursor(toFramePoint(e))}
+      onContextMenu={(e) => { e.preventDefault(); resetDraft(); }}
+    >
+      {tileRegions.map(region => (
+        <g key={region.id}>
+          <rect
+            x={region.x} y={region.y} width={region.width} height={region.height}
+            fill="none" stroke="#22d3ee" strokeWidth={2} strokeDasharray="2 6" vectorEffect="non-scaling-stroke"
+          />
+          <text
+            x={region.x + fontSize / 3} y={region.y + fontSize}
+            fontSize={fontSize * 0.8} fontWeight={700} fill="#22d3ee"
+            stroke="#000" strokeWidth={3} paintOrder="stroke"
+          >
+            {region.name}
+          </text>
+        </g>
+      ))}
+
+      {zones.map(zone => {
+        const count = zoneCounts[zone.id] ?? 0;
+        const alerting = count >= zone.threshold;
+        const top = zone.points.reduce((best, p) => (p.y < best.y ? p : best), zone.points[0]);
+        return (
+          <g key={zone.id}>
+            <polygon
+              points={zone.points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill={zone.color} fillOpacity={alerting ? 0.3 : 0.12}
+              stroke={alerting ? '#ef4444' : zone.color} strokeWidth={2} vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={top.x} y={top.y - fontSize / 2}
+              fontSize={fontSize} fontWeight={700} fill={alerting ? '#f87171' : zone.color} textAnchor="middle"
+              stroke="#000" strokeWidth={3} paintOrder="stroke"
+            >
+              {zone.name} · {count}/{zone.threshold}
+            </text>
+          </g>
+        );
+      })}
+
+      {tripwires.map(line => {
+        const counts = lineCounts[line.id] ?? { in: 0, out: 0 };
+        const mx = (line.start.x + line.end.x) / 2;
+        const my = (line.start.y + line.end.y) / 2;
+        const length = Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y) || 1;
+        // Right-hand normal on screen; flipped when entering is right-to-left
+        const sign = line.inDirection === 'left-to-right' ? 1 : -1;
+        const nx = (-(line.end.y - line.start.y) / length) * sign;
+        const ny = ((line.end.x - line.start.x) / length) * sign;
+        const arrow = fontSize * 2;
+        return (
+          <g key={line.id}>
+            <line
+              x1={line.start.x} y1={line.start.y} x2={line.end.x} y2={line.end.y}
+              stroke="#f59e0b" strokeWidth={3} strokeDasharray="8 4" vectorEffect="non-scaling-stroke"
+            />
+            <line
+              x1={mx} y1={my} x2={mx + nx * arrow} y2={my + ny * arrow}
+              stroke="#f59e0b" strokeWidth={2} vectorEffect="non-scaling-stroke" markerEnd="url(#tripwire-arrow)"
+            />
+            <circle cx={line.start.x} cy={line.start.y} r={fontSize / 3} fill="#f59e0b" />
+            <circle cx={line.end.x} cy={line.end.y} r={fontSize / 3} fill="#f59e0b" />
+            <text
+              x={mx - nx * fontSize} y={my - ny * fontSize}
+              fontSize={fontSize} fontWeight={700} fill="#fbbf24" textAnchor="middle"
+              stroke="#000" strokeWidth={3} paintOrder="stroke"
+            >
+              {line.name} · IN {counts.in} · OUT {counts.out}
+            </text>
+          </g>
+        );
+      })}
+
+      {draftRect && (
+        <rect
+          x={draftRect.x} y={draftRect.y} width={draftRect.width} height={draftRect.height}
+          fill="rgba(34, 211, 238, 0.1)" stroke="#22d3ee" strokeWidth={2} strokeDasharray="4 4" vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {mode === 'tripwire' && anchor && cursor && (
+        <line
+          x1={anchor.x} y1={anchor.y} x2={cursor.x} y2={cursor.y}
+          stroke="#fbbf24" strokeWidth={2} strokeDasharray="4 4" vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {vertices.length > 0 && (
+        <g>
+          <polyline
+            points={[...vertices, ...(cursor ? [cursor] : [])].map(p => `${p.x},${p.y}`).join(' ')}
+            fill="rgba(59, 130, 246, 0.1)" stroke="#60a5fa" strokeWidth={2} strokeDasharray="4 4" vectorEffect="non-scaling-stroke"
+          />
+          {vertices.map((p, i) => (
+            <circle key={i} cx={p.x} cy={p.y} r={i === 0 ? fontSize / 2 : fontSize / 4} fill="#60a5fa" />
+          ))}
+        </g>
+      )}
+
+      <defs>
+        <marker id="tripwire-arrow" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#f59e0b" />
+        </marker>
+      </defs>
+    </svg>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Lock, LockOpen } from 'lucide-react';
+import { PrivacySettings } from '../types';
+import { hashPin } from '../utils/privacy';
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  adminUnlocked: boolean;
+  onChange: (settings: PrivacySettings) => void;
+  // Resolves false when the PIN is wrong
+  onUnlock: (pin: string) => Promise<boolean>;
+  onLock: () => void;
+}
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, adminUnlocked, onChange, onUnlock, onLock }) => {
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState('');
+  // Once a PIN exists, only an unlocked admin may weaken the mask
+  const editable = !settings.pinHash || adminUnlocked;
+
+  const handleUnlock = async () => {
+    const ok = await onUnlock(pin);
+    setError(ok ? '' : 'Wrong PIN.');
+    setPin('');
+  };
+
+  const handleSetPin = async () => {
+    if (newPin.length < 4) {
+      setError('Use at least 4 digits.');
+      return;
+    }
+    onChange({ ...settings, pinHash: await hashPin(newPin) });
+    setNewPin('');
+    setError('');
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-all disabled:opacity-50 ${active ? 'bg-emerald-500 text-black' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          disabled={settings.enabled && !editable}
+          className={optionClass(settings.enabled)}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+        <div className="w-px h-6 bg-neutral-800" />
+        {(['pixelate', 'blur'] as const).map(style => (
+          <button key={style} onClick={() => onChange({ ...settings, style })} disabled={!editable} className={optionClass(settings.style === style)}>
+            {style}
+          </button>
+        ))}
+        <div className="w-px h-6 bg-neutral-800" />
+        {(['body', 'head'] as const).map(region => (
+          <button
+            key={region}
+            onClick={() => onChange({ ...settings, region })}
+            disabled={!editable}
+            className={optionClass(settings.region === region)}
+          >
+            {region === 'body' ? 'Whole Person' : 'Head Only'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {adminUnlocked ? (
+          <button onClick={onLock} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-amber-500 text-black">
+            <Lock className="w-3 h-3" /> Lock Admin
+          </button>
+        ) : settings.pinHash ? (
+          <>
+            <input
+              type="password" inputMode="numeric" placeholder="Admin PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              className="w-28 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-emerald-500"
+            />
+            <button onClick={handleUnlock} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300">
+              <LockOpen className="w-3 h-3" /> Unlock Raw View
+            </button>
+          </>
+        ) : null}
+        {editable && (
+          <>
+            <input
+              type="password" inputMode="numeric" placeholder={settings.pinHash ? 'New PIN' : 'Set admin PIN'}
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value)}
+              className="w-28 bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-emerald-500"
+            />
+            <button onClick={handleSetPin} className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300">
+              {settings.pinHash ? 'Change PIN' : 'Save PIN'}
+            </button>
+          </>
+        )}
+        {error && <span className="text-[10px] text-red-400 font-bold uppercase">{error}</span>}
+      </div>
+      <p className="text-[10px] text-neutral-600">
+        Screenshots, recordings and event clips are always masked while privacy mode is on, even when an admin views the raw feed. If detection stalls, the whole frame is masked.
+      </p>
+    </div>
+  );
+};
+
+export default PrivacyPanel;
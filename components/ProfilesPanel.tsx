@@ -0,0 +1,146 @@
+import React from 'react';
+import { Check, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { ProfileStore, ProfileSwitch } from '../types';
+import { activeProfile, createProfile, createProfileSwitch } from '../utils/profiles';
+
+interface ProfilesPanelProps {
+  store: ProfileStore;
+  onChange: (store: ProfileStore) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ store, onChange, onExport, onImport }) => {
+  const { profiles, activeId, autoSwitch } = store;
+
+  const rename = (id: string, name: string) =>
+    onChange({ ...store, profiles: profiles.map(p => (p.id === id ? { ...p, name } : p)) });
+
+  const add = () => {
+    const profile = createProfile('New profile', activeProfile(store).settings, profiles.map(p => p.name));
+    onChange({ ...store, profiles: [...profiles, profile], activeId: profile.id });
+  };
+
+  // The last profile can't go; switches to a removed profile go with it
+  const remove = (id: string) => {
+    const rest = profiles.filter(p => p.id !== id);
+    onChange({
+      profiles: rest,
+      activeId: id === activeId ? rest[0].id : activeId,
+      autoSwitch: { ...autoSwitch, entries: autoSwitch.entries.filter(e => e.profileId !== id) }
+    });
+  };
+
+  const updateSwitch = (id: string, patch: Partial<ProfileSwitch>) =>
+    onChange({ ...store, autoSwitch: { ...autoSwitch, entries: autoSwitch.entries.map(e => (e.id === id ? { ...e, ...patch } : e)) } });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {profiles.map(profile => {
+          const active = profile.id === activeId;
+          return (
+            <div key={profile.id} className={`flex items-center gap-3 border rounded-lg px-3 py-2 ${active ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-neutral-800/50 border-neutral-700'}`}>
+              <button
+                onClick={() => onChange({ ...store, activeId: profile.id })}
+                disabled={active}
+                className={`p-1 rounded transition-colors ${active ? 'text-emerald-400' : 'text-neutral-600 hover:text-neutral-300 hover:bg-neutral-700'}`}
+                title={active ? 'Active profile' : 'Switch to this profile'}
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <input
+                value={profile.name}
+                onChange={(e) => rename(profile.id, e.target.value)}
+                className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+              />
+              <button
+                onClick={() => remove(profile.id)}
+                disabled={profiles.length === 1}
+                className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors disabled:opacity-30 disabled:hover:text-neutral-400 disabled:hover:bg-transparent"
+                title="Remove profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={add}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors"
+          title="New profile from the current settings"
+        >
+          <Plus className="w-3 h-3" /> New
+        </button>
+        <button
+          onClick={onExport}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors"
+        >
+          <Download className="w-3 h-3" /> Export
+        </button>
+        <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors cursor-pointer" title="Profiles file, or a session bundle to reuse its settings">
+          <Upload className="w-3 h-3" /> Import
+          <input
+            type="file" accept=".json,application/json" className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="pt-3 border-t border-neutral-800 space-y-2">
+        <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-neutral-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={autoSwitch.enabled}
+            onChange={(e) => onChange({ ...store, autoSwitch: { ...autoSwitch, enabled: e.target.checked } })}
+            className="accent-emerald-500"
+          />
+          Switch by time of day
+        </label>
+        {autoSwitch.entries.map(entry => (
+          <div key={entry.id} className="flex items-center gap-2">
+            <span className="text-[10px] font-bold uppercase text-neutral-500">From</span>
+            <input
+              type="time"
+              value={entry.start}
+              onChange={(e) => e.target.value && updateSwitch(entry.id, { start: e.target.value })}
+              className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500"
+            />
+            <select
+              value={entry.profileId}
+              onChange={(e) => updateSwitch(entry.id, { profileId: e.target.value })}
+              className="flex-1 min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-emerald-500"
+            >
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button
+              onClick={() => onChange({ ...store, autoSwitch: { ...autoSwitch, entries: autoSwitch.entries.filter(e => e.id !== entry.id) } })}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+              title="Remove time"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...store, autoSwitch: { ...autoSwitch, entries: [...autoSwitch.entries, createProfileSwitch(activeId)] } })}
+          className="flex items-center gap-2 text-[10px] font-bold uppercase text-neutral-500 hover:text-emerald-400 transition-colors"
+        >
+          <Plus className="w-3 h-3" /> Add time
+        </button>
+        <p className="text-[10px] text-neutral-600">
+          Each profile applies from its time until the next one, every day. Picking a profile by hand holds until the next scheduled time. Changes to the Detection Parameters are saved to the active profile.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,193 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { AlertRule, RuleAction, RuleCondition, Zone } from '../types';
+
+interface RulesEditorProps {
+  rules: AlertRule[];
+  zones: Zone[];
+  activeRuleIds: string[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const ACTIONS: { id: RuleAction; label: string }[] = [
+  { id: 'sound', label: 'Sound' },
+  { id: 'banner', label: 'Banner' },
+  { id: 'log', label: 'Log' },
+  { id: 'screenshot', label: 'Screenshot' },
+  { id: 'record', label: 'Record' },
+  { id: 'notify', label: 'Notify' }
+];
+
+const CONDITION_LABELS: Record<RuleCondition['type'], string> = {
+  'count-above': 'Count above',
+  'rate-of-change': 'Rate of change',
+  'zone-occupancy': 'Zone occupancy',
+  'time-window': 'Time of day'
+};
+
+const newCondition = (type: RuleCondition['type'], zones: Zone[]): RuleCondition => {
+  switch (type) {
+    case 'count-above': return { type, forSeconds: 0 };
+    case 'rate-of-change': return { type, delta: 5, windowSeconds: 60 };
+    case 'zone-occupancy': return { type, zoneId: zones[0]?.id ?? '', value: 3, forSeconds: 0 };
+    case 'time-window': return { type, start: '08:00', end: '18:00' };
+  }
+};
+
+const inputClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500';
+
+const NumberField: React.FC<{ label: string; value: number | undefined; placeholder?: string; title?: string; onChange: (v: number | undefined) => void }> = ({ label, value, placeholder, title, onChange }) => (
+  <label className="flex items-center gap-1 text-[10px] text-neutral-500 font-bold uppercase" title={title}>
+    {label}
+    <input
+      type="number"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className={`${inputClass} w-16`}
+    />
+  </label>
+);
+
+const ConditionFields: React.FC<{ condition: RuleCondition; zones: Zone[]; onChange: (c: RuleCondition) => void }> = ({ condition, zones, onChange }) => {
+  switch (condition.type) {
+    case 'count-above':
+      return (
+        <>
+          <NumberField label="≥" value={condition.value} placeholder="thr." onChange={(v) => onChange({ ...condition, value: v })} />
+          <NumberField label="for s" value={condition.forSeconds} onChange={(v) => onChange({ ...condition, forSeconds: v ?? 0 })} />
+        </>
+      );
+    case 'rate-of-change':
+      return (
+        <>
+          <NumberField label="Δ" value={condition.delta} onChange={(v) => onChange({ ...condition, delta: v ?? 0 })} />
+          <NumberField label="in s" value={condition.windowSeconds} onChange={(v) => onChange({ ...condition, windowSeconds: Math.max(1, v ?? 1) })} />
+        </>
+      );
+    case 'zone-occupancy':
+      return (
+        <>
+          <select value={condition.zoneId} onChange={(e) => onChange({ ...condition, zoneId: e.target.value })} className={inputClass}>
+            {zones.length === 0 && <option value="">No zones</option>}
+            {zones.map(z => <option key={z.id} value={z.id}>{z.name}</option>)}
+          </select>
+          <NumberField label="≥" value={condition.value} onChange={(v) => onChange({ ...condition, value: v ?? 0 })} />
+          <NumberField label="for s" value={condition.forSeconds} onChange={(v) => onChange({ ...condition, forSeconds: v ?? 0 })} />
+        </>
+      );
+    case 'time-window':
+      return (
+        <>
+          <input type="time" value={condition.start} onChange={(e) => onChange({ ...condition, start: e.target.value })} className={inputClass} />
+          <span className="text-[10px] text-neutral-500">to</span>
+          <input type="time" value={condition.end} onChange={(e) => onChange({ ...condition, end: e.target.value })} className={inputClass} />
+        </>
+      );
+  }
+};
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ rules, zones, activeRuleIds, onChange }) => {
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const addRule = () => onChange([...rules, {
+    id: Math.random().toString(36).substr(2, 9),
+    name: `Rule ${rules.length + 1}`,
+    enabled: true,
+    conditions: [newCondition('count-above', zones)],
+    cooldownSeconds: 60,
+    actions: ['banner', 'log']
+  }]);
+
+  return (
+    <div className="space-y-3">
+      {rules.map(rule => {
+        const isActive = activeRuleIds.includes(rule.id);
+        return (
+          <div key={rule.id} className={`bg-neutral-800/50 border rounded-lg p-3 space-y-3 ${isActive ? 'border-red-500/60' : 'border-neutral-700'}`}>
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={() => update(rule.id, { enabled: !rule.enabled })}
+                className="accent-emerald-500"
+                title="Enabled"
+              />
+              <input
+                value={rule.name}
+                onChange={(e) => update(rule.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+              />
+              {isActive && <span className="text-[10px] font-black uppercase text-red-400">Active</span>}
+              <button
+                onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+                title="Remove rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {rule.conditions.map((condition, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] text-neutral-400 font-bold uppercase w-24">{i === 0 ? 'When' : 'And'} {CONDITION_LABELS[condition.type]}</span>
+                  <ConditionFields
+                    condition={condition}
+                    zones={zones}
+                    onChange={(c) => update(rule.id, { conditions: rule.conditions.map((x, j) => (j === i ? c : x)) })}
+                  />
+                  <button
+                    onClick={() => update(rule.id, { conditions: rule.conditions.filter((_, j) => j !== i) })}
+                    className="p-1 rounded text-neutral-500 hover:text-red-400"
+                    title="Remove condition"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <select
+                value=""
+                onChange={(e) => e.target.value && update(rule.id, { conditions: [...rule.conditions, newCondition(e.target.value as RuleCondition['type'], zones)] })}
+                className={inputClass}
+              >
+                <option value="">+ Add condition</option>
+                {(Object.keys(CONDITION_LABELS) as RuleCondition['type'][]).map(type => (
+                  <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <NumberField label="Clear below" title="Once firing, the frame count condition stays met until the count drops below this" value={rule.clearBelow} placeholder="—" onChange={(v) => update(rule.id, { clearBelow: v })} />
+              <NumberField label="Cooldown s" value={rule.cooldownSeconds} onChange={(v) => update(rule.id, { cooldownSeconds: Math.max(0, v ?? 0) })} />
+              <div className="flex flex-wrap gap-1">
+                {ACTIONS.map(action => {
+                  const on = rule.actions.includes(action.id);
+                  return (
+                    <button
+                      key={action.id}
+                      onClick={() => update(rule.id, { actions: on ? rule.actions.filter(a => a !== action.id) : [...rule.actions, action.id] })}
+                      className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors ${on ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/40' : 'bg-neutral-900 text-neutral-500 border border-neutral-700'}`}
+                    >
+                      {action.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <button
+        onClick={addRule}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-all"
+      >
+        <Plus className="w-3 h-3" /> Add Rule
+      </button>
+    </div>
+  );
+};
+
+export default RulesEditor;
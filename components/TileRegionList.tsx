@@ -0,0 +1,50 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { TileRegion } from '../types';
+import { computeTiles, DEFAULT_TILING } from '../utils/tiling';
+
+interface TileRegionListProps {
+  regions: TileRegion[];
+  frameWidth: number;
+  frameHeight: number;
+  onChange: (regions: TileRegion[]) => void;
+}
+
+const TileRegionList: React.FC<TileRegionListProps> = ({ regions, frameWidth, frameHeight, onChange }) => {
+  const tileCount = (rects: TileRegion[]) =>
+    computeTiles(frameWidth, frameHeight, { ...DEFAULT_TILING, regions: rects }).length;
+
+  if (regions.length === 0) {
+    return (
+      <p className="text-xs text-neutral-600">
+        No regions, so the whole frame is tiled ({tileCount([])} tiles). Use "Draw Region" and click two opposite corners to tile only part of it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {regions.map(region => (
+        <div key={region.id} className="flex items-center gap-3 bg-neutral-800/50 border border-neutral-700 rounded-lg px-3 py-2">
+          <input
+            value={region.name}
+            onChange={(e) => onChange(regions.map(r => (r.id === region.id ? { ...r, name: e.target.value } : r)))}
+            className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+          />
+          <span className="text-[10px] font-mono text-neutral-400">
+            {Math.round(region.width)}×{Math.round(region.height)} · {tileCount([region])} tiles
+          </span>
+          <button
+            onClick={() => onChange(regions.filter(r => r.id !== region.id))}
+            className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+            title="Remove region"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TileRegionList;
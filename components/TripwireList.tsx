@@ -0,0 +1,52 @@
+import React from 'react';
+import { ArrowLeftRight, Trash2 } from 'lucide-react';
+import { LineCounts, Tripwire } from '../types';
+
+interface TripwireListProps {
+  tripwires: Tripwire[];
+  lineCounts: Record<string, LineCounts>;
+  onChange: (tripwires: Tripwire[]) => void;
+}
+
+const TripwireList: React.FC<TripwireListProps> = ({ tripwires, lineCounts, onChange }) => {
+  const update = (id: string, patch: Partial<Tripwire>) =>
+    onChange(tripwires.map(t => (t.id === id ? { ...t, ...patch } : t)));
+
+  if (tripwires.length === 0) {
+    return <p className="text-xs text-neutral-600">No tripwires. Use "Draw Line" and click two points on the feed.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {tripwires.map(line => {
+        const counts = lineCounts[line.id] ?? { in: 0, out: 0 };
+        return (
+          <div key={line.id} className="flex items-center gap-3 bg-neutral-800/50 border border-neutral-700 rounded-lg px-3 py-2">
+            <input
+              value={line.name}
+              onChange={(e) => update(line.id, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+            />
+            <span className="text-[10px] font-mono text-neutral-400">IN {counts.in} / OUT {counts.out}</span>
+            <button
+              onClick={() => update(line.id, { inDirection: line.inDirection === 'left-to-right' ? 'right-to-left' : 'left-to-right' })}
+              className="p-1.5 rounded text-neutral-400 hover:text-amber-400 hover:bg-neutral-700 transition-colors"
+              title="Flip entry direction"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(tripwires.filter(t => t.id !== line.id))}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+              title="Remove tripwire"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TripwireList;
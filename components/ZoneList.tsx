@@ -0,0 +1,73 @@
+import React from 'react';
+import { Bell, BellOff, Trash2 } from 'lucide-react';
+import { Zone } from '../types';
+
+interface ZoneListProps {
+  zones: Zone[];
+  zoneCounts: Record<string, number>;
+  onChange: (zones: Zone[]) => void;
+}
+
+const ZoneList: React.FC<ZoneListProps> = ({ zones, zoneCounts, onChange }) => {
+  const update = (id: string, patch: Partial<Zone>) =>
+    onChange(zones.map(z => (z.id === id ? { ...z, ...patch } : z)));
+
+  if (zones.length === 0) {
+    return <p className="text-xs text-neutral-600">No zones. Use "Draw Zone", click the corners and close the shape on its first point.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {zones.map(zone => {
+        const count = zoneCounts[zone.id] ?? 0;
+        return (
+          <div key={zone.id} className="flex items-center gap-3 bg-neutral-800/50 border border-neutral-700 rounded-lg px-3 py-2">
+            <input
+              type="color"
+              value={zone.color}
+              onChange={(e) => update(zone.id, { color: e.target.value })}
+              className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+              title="Zone colour"
+            />
+            <input
+              value={zone.name}
+              onChange={(e) => update(zone.id, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm font-medium focus:outline-none"
+            />
+            <span className={`text-[10px] font-mono ${count >= zone.threshold ? 'text-red-400' : 'text-neutral-400'}`}>{count} /</span>
+            <input
+              type="number" min="1" max="50"
+              value={zone.threshold}
+              onChange={(e) => update(zone.id, { threshold: Math.max(1, Number(e.target.value)) })}
+              className="w-14 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500"
+              title="Zone alert threshold"
+            />
+            <input
+              type="number" min="0" max="3600" placeholder="dwell"
+              value={zone.dwellSeconds ?? ''}
+              onChange={(e) => update(zone.id, { dwellSeconds: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+              className="w-16 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-emerald-500"
+              title="Loitering limit in seconds (blank to disable)"
+            />
+            <button
+              onClick={() => update(zone.id, { soundEnabled: !zone.soundEnabled })}
+              className={`p-1.5 rounded hover:bg-neutral-700 transition-colors ${zone.soundEnabled ? 'text-emerald-400' : 'text-neutral-500'}`}
+              title={zone.soundEnabled ? 'Mute zone alerts' : 'Unmute zone alerts'}
+            >
+              {zone.soundEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+              className="p-1.5 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700 transition-colors"
+              title="Remove zone"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ZoneList;
@@ -0,0 +1,323 @@
+// Local API for live counts. The app pushes its counts and activity log here over
+// a WebSocket (Settings → Local API); signage, turnstiles and other systems on site
+// read them back over HTTP or subscribe to a stream. See docs/local-api.md.
+//
+//   npm run api                            # listens on http://localhost:8789
+//   PORT=9000 API_TOKEN=secret HISTORY_HOURS=48 npm run api
+//   APP_ORIGINS=http://192.168.1.5:3000 npm run api   # when the app is opened at another address
+//
+// GET /api/status               current count, peak, threshold and alert state
+// GET /api/history?from&to      count samples, ISO 8601 or epoch ms (default: the last hour)
+// PUT /api/settings             { threshold?, confidence? } with Authorization: Bearer <API_TOKEN>;
+//                               refused unless API_TOKEN is set
+// ws://localhost:8789/api/stream   {"type":"status"} on connect, then {"type":"count"} and {"type":"log"}
+// ws://localhost:8789/api/app      where the app pushes from; only accepted from this machine and, from a
+//                                  browser, from pages served at APP_ORIGINS. While one app is connected
+//                                  and sending, others are refused with 409 rather than replacing it.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8789);
+const API_TOKEN = process.env.API_TOKEN ?? '';
+const HISTORY_MS = Number(process.env.HISTORY_HOURS ?? 24) * 60 * 60 * 1000;
+const APP_ORIGINS = (process.env.APP_ORIGINS ?? 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim()).filter(Boolean);
+// The app sends its status every second; one silent this long is gone even if its socket hasn't closed
+const APP_STALE_MS = 5000;
+// Largest history response; longer ranges are evenly thinned to this many samples
+const MAX_HISTORY_POINTS = 5000;
+const RECENT_LOGS = 50;
+// Same ranges as the app's sliders
+const LIMITS = {
+  threshold: { min: 1, max: 20, integer: true },
+  confidence: { min: 0.1, max: 0.9, integer: false }
+};
+
+const stamp = () => new Date().toLocaleTimeString();
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+// Latest update from the app, as served by /api/status
+let status = {
+  monitoring: false,
+  source: null,
+  updatedAt: null,
+  count: 0,
+  peak: 0,
+  threshold: null,
+  confidence: null,
+  alerting: false,
+  alerts: [],
+  zones: {},
+  classes: {}
+};
+// { t, count, alerting }, oldest first
+let history = [];
+const recentLogs = [];
+let app = null;
+let appSeenAt = 0;
+const subscribers = new Set();
+
+const snapshot = () => ({ ...status, connected: app !== null, recentLogs });
+
+// --- WebSocket framing -------------------------------------------------------------
+
+const wsFrame = (payload, opcode) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff]);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const sendText = (socket, message) => socket.write(wsFrame(Buffer.from(JSON.stringify(message)), 0x1));
+
+// Returns complete WebSocket frames from the buffer and whatever is left over
+const readFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// Answers pings and closes, and hands text messages to `onMessage` as parsed JSON
+const readMessages = (socket, onMessage) => {
+  let buffer = Buffer.alloc(0);
+  socket.on('data', (data) => {
+    const { frames, rest } = readFrames(Buffer.concat([buffer, data]));
+    buffer = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0x00]));
+      } else if (opcode === 0x9) {
+        socket.write(wsFrame(payload, 0xa));
+      } else if (opcode === 0x1) {
+        try {
+          onMessage(JSON.parse(payload.toString('utf8')));
+        } catch {
+          // Not JSON; nothing this server understands
+        }
+      }
+    });
+  });
+};
+
+const broadcast = (message) => subscribers.forEach(socket => sendText(socket, message));
+
+// --- Updates from the app ------------------------------------------------------------
+
+const recordCount = (update) => {
+  const { type, t, ...fields } = update;
+  status = { ...status, ...fields, updatedAt: new Date(t).toISOString() };
+  // A sample per change, or per second while nothing changes
+  const last = history[history.length - 1];
+  if (status.monitoring && (!last || last.count !== status.count || last.alerting !== status.alerting || t - last.t >= 1000)) {
+    history.push({ t, count: status.count, alerting: status.alerting });
+  }
+  const cutoff = Date.now() - HISTORY_MS;
+  if (history.length > 0 && history[0].t < cutoff) history = history.filter(s => s.t >= cutoff);
+  broadcast({ type: 'count', ...update });
+};
+
+const recordLog = (entry) => {
+  recentLogs.unshift(entry);
+  recentLogs.splice(RECENT_LOGS);
+  broadcast({ type: 'log', entry });
+};
+
+const upgrade = (socket, req) => {
+  const accept = crypto.createHash('sha1').update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+};
+
+const isLoopback = (address) => ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(address);
+
+const acceptApp = (socket, req) => {
+  // Browsers always send Origin, so other web pages open on this machine are refused here
+  const { origin } = req.headers;
+  if (!isLoopback(req.socket.remoteAddress) || (origin && !APP_ORIGINS.includes(origin))) {
+    console.log(`[${stamp()}] app connection refused from ${origin ?? req.socket.remoteAddress}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  // One app at a time; a newcomer only takes over once the current one has gone quiet
+  if (app && Date.now() - appSeenAt < APP_STALE_MS) {
+    socket.end('HTTP/1.1 409 Conflict\r\n\r\n');
+    return;
+  }
+  upgrade(socket, req);
+  if (app) app.end(Buffer.from([0x88, 0x00]));
+  app = socket;
+  appSeenAt = Date.now();
+  console.log(`[${stamp()}] app connected`);
+  readMessages(socket, (message) => {
+    if (app !== socket) return;
+    appSeenAt = Date.now();
+    if (message.type === 'count') recordCount(message);
+    else if (message.type === 'log') recordLog(message.entry);
+  });
+  const gone = () => {
+    if (app !== socket) return;
+    app = null;
+    status = { ...status, monitoring: false };
+    broadcast({ type: 'status', ...snapshot() });
+    console.log(`[${stamp()}] app disconnected`);
+  };
+  socket.on('close', gone);
+  socket.on('error', gone);
+};
+
+const acceptSubscriber = (socket, req) => {
+  upgrade(socket, req);
+  subscribers.add(socket);
+  sendText(socket, { type: 'status', ...snapshot() });
+  readMessages(socket, () => {});
+  const gone = () => subscribers.delete(socket);
+  socket.on('close', gone);
+  socket.on('error', gone);
+};
+
+// --- HTTP -------------------------------------------------------------------------------
+
+const json = (res, code, body) => {
+  res.writeHead(code, { ...CORS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }).end(JSON.stringify(body));
+};
+
+// ISO 8601 or epoch milliseconds
+const parseTime = (value, fallback) => {
+  if (value === null || value === '') return fallback;
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const getHistory = (res, searchParams) => {
+  const now = Date.now();
+  const to = parseTime(searchParams.get('to'), now);
+  const from = parseTime(searchParams.get('from'), (to ?? now) - 60 * 60 * 1000);
+  if (from === null || to === null) return json(res, 400, { error: 'from and to must be ISO 8601 times or epoch milliseconds' });
+  const inRange = history.filter(s => s.t >= from && s.t <= to);
+  const step = Math.ceil(inRange.length / MAX_HISTORY_POINTS);
+  const samples = step > 1 ? inRange.filter((_, i) => i % step === 0) : inRange;
+  json(res, 200, {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    thinned: step > 1,
+    samples: samples.map(s => ({ ...s, time: new Date(s.t).toISOString() }))
+  });
+};
+
+const authorized = (req) => {
+  const given = Buffer.from((req.headers.authorization ?? '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(API_TOKEN);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// The validated change, or an error message
+const parseSettings = (body) => {
+  const change = {};
+  for (const [key, limit] of Object.entries(LIMITS)) {
+    if (body[key] === undefined) continue;
+    const value = body[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < limit.min || value > limit.max || (limit.integer && !Number.isInteger(value))) {
+      return { error: `${key} must be ${limit.integer ? 'a whole number' : 'a number'} from ${limit.min} to ${limit.max}` };
+    }
+    change[key] = value;
+  }
+  if (Object.keys(change).length === 0) return { error: 'Send threshold and/or confidence' };
+  return { change };
+};
+
+const putSettings = (req, res) => {
+  if (!API_TOKEN) return json(res, 403, { error: 'Remote changes are disabled; start the server with API_TOKEN set' });
+  if (!authorized(req)) return json(res, 401, { error: 'Missing or wrong bearer token' });
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return json(res, 400, { error: 'Invalid JSON' });
+    }
+    const { change, error } = parseSettings(body ?? {});
+    if (error) return json(res, 400, { error });
+    if (!app) return json(res, 503, { error: 'The app is not connected' });
+    sendText(app, { type: 'settings', ...change });
+    console.log(`[${stamp()}] settings ${JSON.stringify(change)} from ${req.socket.remoteAddress}`);
+    json(res, 202, change);
+  });
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS).end();
+    return;
+  }
+  const { pathname, searchParams } = new URL(req.url, 'http://api');
+  if (req.method === 'GET' && pathname === '/api/status') return json(res, 200, snapshot());
+  if (req.method === 'GET' && pathname === '/api/history') return getHistory(res, searchParams);
+  if (req.method === 'PUT' && pathname === '/api/settings') return putSettings(req, res);
+  json(res, 404, { error: 'Use GET /api/status, GET /api/history, PUT /api/settings or ws://…/api/stream' });
+});
+
+server.on('upgrade', (req, socket) => {
+  const { pathname } = new URL(req.url, 'http://api');
+  if (!req.headers['sec-websocket-key']) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+  } else if (pathname === '/api/app') {
+    acceptApp(socket, req);
+  } else if (pathname === '/api/stream') {
+    acceptSubscriber(socket, req);
+  } else {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+  }
+});
+
+server.on('error', (err) => {
+  console.error(err.code === 'EADDRINUSE' ? `Local API: port ${PORT} is already in use; is the server already running?` : `Local API: ${err.message}`);
+  process.exit(1);
+});
+
+server.listen(PORT, () => {
+  console.log(`Local API on http://localhost:${PORT} (stream at ws://localhost:${PORT}/api/stream)`);
+  console.log(API_TOKEN ? 'Remote settings changes enabled' : 'Remote settings changes disabled; set API_TOKEN to allow them');
+});
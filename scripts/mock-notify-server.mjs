@@ -0,0 +1,221 @@
+// Local stand-in for a webhook receiver and an MQTT-over-WebSocket broker, for
+// trying out notification channels without real infrastructure.
+//
+//   npm run mock:notify                  # listens on http://localhost:8787
+//   PORT=9000 FAIL_FIRST=2 npm run mock:notify
+//
+// Webhook: POST to any path (e.g. /webhook). JSON and multipart bodies are summarised.
+// MQTT:    ws://localhost:8787/mqtt. CONNECT, PUBLISH (QoS 0), PINGREQ and DISCONNECT
+//          are understood; published messages are printed, not forwarded.
+// FAIL_FIRST=n answers the first n webhook requests with 503 to exercise retries.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+const stamp = () => new Date().toLocaleTimeString();
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const summarise = (value) => {
+  if (value && typeof value === 'object' && value.snapshot?.base64) {
+    const bytes = Math.round((value.snapshot.base64.length * 3) / 4);
+    return { ...value, snapshot: `<${value.snapshot.contentType} ${bytes} bytes>` };
+  }
+  return value;
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, CORS).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks);
+    const type = req.headers['content-type'] ?? '';
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[${stamp()}] webhook ${req.url} -> 503 (simulated failure, ${failuresLeft} left)`);
+      res.writeHead(503, CORS).end('Service Unavailable');
+      return;
+    }
+
+    if (type.startsWith('application/json')) {
+      try {
+        console.log(`[${stamp()}] webhook ${req.url} JSON`, summarise(JSON.parse(body.toString('utf8'))));
+      } catch {
+        res.writeHead(400, CORS).end('Invalid JSON');
+        return;
+      }
+    } else if (type.startsWith('multipart/form-data')) {
+      const boundary = type.split('boundary=')[1];
+      const parts = body.toString('latin1').split(`--${boundary}`).filter(p => p.includes('Content-Disposition'));
+      console.log(`[${stamp()}] webhook ${req.url} multipart`);
+      parts.forEach(part => {
+        const [head, ...rest] = part.split('\r\n\r\n');
+        const name = /name="([^"]+)"/.exec(head)?.[1];
+        const content = rest.join('\r\n\r\n').replace(/\r\n$/, '');
+        const isFile = /filename="/.test(head);
+        console.log(`  ${name}: ${isFile ? `<file ${Buffer.byteLength(content, 'latin1')} bytes>` : content}`);
+      });
+    } else {
+      console.log(`[${stamp()}] webhook ${req.url} ${type || 'no content type'}, ${body.length} bytes`);
+    }
+    res.writeHead(200, { ...CORS, 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+});
+
+// --- MQTT over WebSocket -------------------------------------------------------
+
+const wsFrame = (payload) => {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x82, length])
+    : Buffer.from([0x82, 126, length >> 8, length & 0xff]);
+  return Buffer.concat([header, payload]);
+};
+
+// Returns complete WebSocket frames from the buffer and whatever is left over
+const readFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// Splits a byte stream into MQTT packets: [type, body]
+const readPackets = (buffer) => {
+  const packets = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    let length = 0;
+    let multiplier = 1;
+    let cursor = offset + 1;
+    let byte;
+    do {
+      if (cursor >= buffer.length) return { packets, rest: buffer.subarray(offset) };
+      byte = buffer[cursor++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    if (buffer.length < cursor + length) break;
+    packets.push({ header: buffer[offset], body: buffer.subarray(cursor, cursor + length) });
+    offset = cursor + length;
+  }
+  return { packets, rest: buffer.subarray(offset) };
+};
+
+const readString = (body, offset) => {
+  const length = body.readUInt16BE(offset);
+  return { value: body.toString('utf8', offset + 2, offset + 2 + length), next: offset + 2 + length };
+};
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  const protocols = (req.headers['sec-websocket-protocol'] ?? '').split(',').map(p => p.trim());
+  if (!key || !protocols.includes('mqtt')) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    'Sec-WebSocket-Protocol: mqtt',
+    '', ''
+  ].join('\r\n'));
+
+  let clientId = '?';
+  let wsBuffer = Buffer.alloc(0);
+  let mqttBuffer = Buffer.alloc(0);
+
+  socket.on('data', data => {
+    const { frames, rest } = readFrames(Buffer.concat([wsBuffer, data]));
+    wsBuffer = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0x00]));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+        return;
+      }
+      const parsed = readPackets(Buffer.concat([mqttBuffer, payload]));
+      mqttBuffer = parsed.rest;
+      parsed.packets.forEach(({ header, body }) => {
+        switch (header >> 4) {
+          case 1: { // CONNECT
+            const protocol = readString(body, 0);
+            const flags = body[protocol.next + 1];
+            const id = readString(body, protocol.next + 4);
+            clientId = id.value;
+            const user = flags & 0x80 ? readString(body, id.next).value : null;
+            console.log(`[${stamp()}] mqtt connect ${clientId}${user ? ` as ${user}` : ''}`);
+            socket.write(wsFrame(Buffer.from([0x20, 0x02, 0x00, 0x00])));
+            break;
+          }
+          case 3: { // PUBLISH
+            const topic = readString(body, 0);
+            const qos = (header >> 1) & 0x03;
+            const message = body.subarray(topic.next + (qos > 0 ? 2 : 0)).toString('utf8');
+            console.log(`[${stamp()}] mqtt ${topic.value}${header & 0x01 ? ' (retained)' : ''} ${message}`);
+            break;
+          }
+          case 12: // PINGREQ
+            socket.write(wsFrame(Buffer.from([0xd0, 0x00])));
+            break;
+          case 14: // DISCONNECT
+            console.log(`[${stamp()}] mqtt disconnect ${clientId}`);
+            socket.end();
+            break;
+        }
+      });
+    });
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock notification server on http://localhost:${PORT}`);
+  console.log(`  webhook: POST http://localhost:${PORT}/webhook`);
+  console.log(`  mqtt:    ws://localhost:${PORT}/mqtt`);
+  if (failuresLeft > 0) console.log(`  failing the first ${failuresLeft} webhook request(s)`);
+});
@@ -0,0 +1,262 @@
+// Restreams network cameras to the browser: RTSP, which browsers can't open at
+// all, and MJPEG from cameras that don't allow cross-origin requests.
+//
+//   npm run relay                          # listens on http://localhost:8788, needs ffmpeg on PATH
+//   PORT=9000 FFMPEG=/opt/ffmpeg/bin/ffmpeg TRANSCODE=1 npm run relay
+//   CAMERA_HOSTS=192.168.1.20,cam.local:8080 APP_ORIGINS=http://localhost:3000 npm run relay
+//
+// Only this machine can connect unless HOST says otherwise, and only pages served from
+// APP_ORIGINS (the Vite app by default) may use it from a browser. With CAMERA_HOSTS set,
+// only those hosts (host or host:port) are relayed; without it any host is, but MJPEG
+// responses must still be JPEG, so the relay can't be used to read other web pages.
+//
+// RTSP:  ws://localhost:8788/rtsp?url=<encoded rtsp url>. The first message is text,
+//        {"type":"init","mime":"video/mp4; codecs=\"avc1.64001f\""}, followed by binary
+//        fragmented MP4 for Media Source Extensions. Each viewer gets its own ffmpeg,
+//        stopped when the socket closes. Problems are sent as {"type":"error","message"}.
+// MJPEG: http://localhost:8788/mjpeg?url=<encoded http url> is piped through with CORS allowed for the app.
+// TRANSCODE=1 re-encodes to baseline H.264, for H.265 cameras or profiles the browser rejects;
+// by default the camera's H.264 is passed through untouched.
+
+import http from 'node:http';
+import https from 'node:https';
+import crypto from 'node:crypto';
+import { spawn } from 'node:child_process';
+
+const PORT = Number(process.env.PORT ?? 8788);
+const HOST = process.env.HOST ?? '127.0.0.1';
+const APP_ORIGINS = (process.env.APP_ORIGINS ?? 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(o => o.trim()).filter(Boolean);
+const CAMERA_HOSTS = (process.env.CAMERA_HOSTS ?? '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+// ffmpeg processes running at once; each RTSP viewer has one
+const MAX_RTSP_VIEWERS = Number(process.env.MAX_RTSP_VIEWERS ?? 8);
+const FFMPEG = process.env.FFMPEG ?? 'ffmpeg';
+const TRANSCODE = process.env.TRANSCODE === '1';
+// Give up on a camera whose stream doesn't reveal its codec within this many bytes
+const MAX_INIT_BYTES = 2 * 1024 * 1024;
+
+const stamp = () => new Date().toLocaleTimeString();
+
+// Browsers send Origin on cross-origin requests and every WebSocket; other local tools don't
+const originAllowed = (req) => !req.headers.origin || APP_ORIGINS.includes(req.headers.origin);
+
+const corsFor = (req) => (req.headers.origin
+  ? { 'Access-Control-Allow-Origin': req.headers.origin, 'Access-Control-Allow-Methods': 'GET, OPTIONS', Vary: 'Origin' }
+  : {});
+
+// Null if the camera may be relayed, otherwise why not
+const refuseTarget = (url, protocols) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'not a valid url';
+  }
+  if (!protocols.includes(parsed.protocol)) return `expected ${protocols.map(p => `${p}//`).join(' or ')}`;
+  if (CAMERA_HOSTS.length > 0 && !CAMERA_HOSTS.includes(parsed.hostname.toLowerCase()) && !CAMERA_HOSTS.includes(parsed.host.toLowerCase())) {
+    return `${parsed.host} is not in CAMERA_HOSTS`;
+  }
+  return null;
+};
+
+// MJPEG streams, and single JPEG snapshots
+const isCameraContent = (type = '') => /^(multipart\/x-mixed-replace|image\/jpeg)\b/i.test(type);
+
+// Host only, so credentials in camera URLs stay out of the console
+const describe = (url) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '<invalid url>';
+  }
+};
+
+// --- MJPEG proxy ---------------------------------------------------------------
+
+const server = http.createServer((req, res) => {
+  if (!originAllowed(req)) {
+    res.writeHead(403).end(`Origin ${req.headers.origin} is not in APP_ORIGINS`);
+    return;
+  }
+  const CORS = corsFor(req);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS).end();
+    return;
+  }
+  const { pathname, searchParams } = new URL(req.url, 'http://relay');
+  const target = searchParams.get('url') ?? '';
+  if (req.method !== 'GET' || pathname !== '/mjpeg') {
+    res.writeHead(404, CORS).end('Use /mjpeg?url=<http url> or ws://…/rtsp?url=<rtsp url>');
+    return;
+  }
+  const refused = refuseTarget(target, ['http:', 'https:']);
+  if (refused) {
+    res.writeHead(403, CORS).end(`Not relayed: ${refused}`);
+    return;
+  }
+
+  console.log(`[${stamp()}] mjpeg ${describe(target)} opened`);
+  const upstream = (target.startsWith('https') ? https : http).get(target, (camera) => {
+    const type = camera.headers['content-type'];
+    if ((camera.statusCode ?? 502) < 400 && !isCameraContent(type)) {
+      console.log(`[${stamp()}] mjpeg ${describe(target)} refused: ${type ?? 'no content type'} is not MJPEG`);
+      camera.destroy();
+      res.writeHead(502, CORS).end(`Not relayed: the camera answered with ${type ?? 'no content type'}, not MJPEG`);
+      return;
+    }
+    // Error pages are passed on as status only, not their bodies
+    if ((camera.statusCode ?? 502) >= 400) {
+      camera.destroy();
+      res.writeHead(camera.statusCode ?? 502, CORS).end();
+      return;
+    }
+    res.writeHead(camera.statusCode ?? 502, {
+      ...CORS,
+      'Content-Type': camera.headers['content-type'] ?? 'multipart/x-mixed-replace',
+      'Cache-Control': 'no-store'
+    });
+    camera.pipe(res);
+  });
+  upstream.on('error', (err) => {
+    console.log(`[${stamp()}] mjpeg ${describe(target)} failed: ${err.message}`);
+    if (!res.headersSent) res.writeHead(502, CORS);
+    res.end();
+  });
+  req.on('close', () => {
+    upstream.destroy();
+    console.log(`[${stamp()}] mjpeg ${describe(target)} closed`);
+  });
+});
+
+// --- RTSP over WebSocket ---------------------------------------------------------
+
+const wsFrame = (payload, opcode) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff]);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const sendText = (socket, message) => socket.write(wsFrame(Buffer.from(JSON.stringify(message)), 0x1));
+
+// The MSE codec string from the init segment's avcC box: avc1.<profile><constraints><level>
+const codecFromInit = (buffer) => {
+  if (buffer.includes('hvcC')) return { error: 'camera sends H.265, which browsers cannot play; restart the relay with TRANSCODE=1' };
+  const box = buffer.indexOf('avcC');
+  if (box === -1 || buffer.length < box + 8) return null;
+  return { codec: `avc1.${buffer.subarray(box + 5, box + 8).toString('hex')}` };
+};
+
+let viewers = 0;
+
+server.on('upgrade', (req, socket) => {
+  const { pathname, searchParams } = new URL(req.url, 'http://relay');
+  const target = searchParams.get('url') ?? '';
+  const key = req.headers['sec-websocket-key'];
+  if (!originAllowed(req)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  if (!key || pathname !== '/rtsp') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const refused = refuseTarget(target, ['rtsp:', 'rtsps:']);
+  if (refused) {
+    console.log(`[${stamp()}] rtsp ${describe(target)} refused: ${refused}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  if (viewers >= MAX_RTSP_VIEWERS) {
+    socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+
+  console.log(`[${stamp()}] rtsp ${describe(target)} opened`);
+  const ffmpeg = spawn(FFMPEG, [
+    '-loglevel', 'error',
+    '-rtsp_transport', 'tcp',
+    '-i', target,
+    '-an',
+    ...(TRANSCODE
+      ? ['-c:v', 'libx264', '-preset', 'ultrafast', '-tune', 'zerolatency', '-profile:v', 'baseline', '-g', '30']
+      : ['-c:v', 'copy']),
+    '-f', 'mp4',
+    '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+    '-frag_duration', '500000',
+    'pipe:1'
+  ], { stdio: ['ignore', 'pipe', 'pipe'] });
+  viewers++;
+
+  let init = Buffer.alloc(0);
+  let started = false;
+  let closed = false;
+
+  const close = (reason) => {
+    if (closed) return;
+    closed = true;
+    viewers--;
+    if (reason) sendText(socket, { type: 'error', message: reason });
+    socket.end(Buffer.from([0x88, 0x00]));
+    ffmpeg.kill('SIGTERM');
+    console.log(`[${stamp()}] rtsp ${describe(target)} closed${reason ? `: ${reason}` : ''}`);
+  };
+
+  ffmpeg.stdout.on('data', (data) => {
+    if (closed) return;
+    if (!started) {
+      init = Buffer.concat([init, data]);
+      const found = codecFromInit(init);
+      if (found?.error) return close(found.error);
+      if (!found) {
+        if (init.length > MAX_INIT_BYTES) close('no H.264 video found in the stream');
+        return;
+      }
+      started = true;
+      sendText(socket, { type: 'init', mime: `video/mp4; codecs="${found.codec}"` });
+      data = init;
+    }
+    // A slow viewer holds ffmpeg back rather than piling up memory here
+    if (!socket.write(wsFrame(data, 0x2))) {
+      ffmpeg.stdout.pause();
+      socket.once('drain', () => ffmpeg.stdout.resume());
+    }
+  });
+
+  let stderr = '';
+  ffmpeg.stderr.on('data', (data) => {
+    stderr = (stderr + data.toString()).slice(-500);
+  });
+  ffmpeg.on('error', (err) => close(err.code === 'ENOENT' ? `${FFMPEG} not found; install ffmpeg or set FFMPEG` : err.message));
+  ffmpeg.on('exit', () => close(stderr.trim().split('\n').pop() || 'camera stream ended'));
+
+  // The browser only ever sends close and ping frames on this socket
+  socket.on('data', (data) => {
+    const opcode = data[0] & 0x0f;
+    if (opcode === 0x8) close();
+  });
+  socket.on('close', () => close());
+  socket.on('error', () => close());
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Stream relay on http://${HOST}:${PORT} (MJPEG at /mjpeg, RTSP at ws://${HOST}:${PORT}/rtsp)`);
+  console.log(`Using ${FFMPEG}${TRANSCODE ? ', transcoding to baseline H.264' : ', passing H.264 through'}`);
+  console.log(`Browser access from ${APP_ORIGINS.join(', ')}; cameras: ${CAMERA_HOSTS.length > 0 ? CAMERA_HOSTS.join(', ') : 'any host'}`);
+});
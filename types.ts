@@ -1,34 +1,369 @@
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
 export interface Detection {
   bbox: [number, number, number, number];
   class: string;
   score: number;
+  // Set by the tracker: stable ID, time since first seen (ms), velocity (px/s)
+  trackId?: number;
+  age?: number;
+  velocity?: [number, number];
+}
+
+export interface Tripwire {
+  id: string;
+  name: string;
+  start: Point;
+  end: Point;
+  // Which way across the start→end segment counts as entering
+  inDirection: 'left-to-right' | 'right-to-left';
+}
+
+export interface LineCounts {
+  in: number;
+  out: number;
+}
+
+export interface Zone {
+  id: string;
+  name: string;
+  points: Point[];
+  threshold: number;
+  color: string;
+  soundEnabled: boolean;
+  // Loitering limit for this zone in seconds; unset disables the zone rule
+  dwellSeconds?: number;
+}
+
+// A COCO (or custom model) class counted alongside people
+export interface ClassTarget {
+  class: string;
+  color: string;
+  threshold: number;
+}
+
+export interface CameraFeed {
+  id: string;
+  deviceId: string;
+  label: string;
+  threshold: number;
+}
+
+export interface CameraStats {
+  currentCount: number;
+  peakCount: number;
 }
 
 export interface Screenshot {
   id: string;
+  // Object URL for display; the image itself lives in `blob`
   url: string;
+  blob: Blob;
   timestamp: string;
+  // Per class at capture time, always including 'person'
+  counts: Record<string, number>;
+  reason?: string;
+}
+
+export interface CountSample {
+  // Epoch milliseconds
+  t: number;
   count: number;
+  zones?: Record<string, number>;
+  // Extra classes only; people are in `count`
+  classes?: Record<string, number>;
+  detections?: Pick<Detection, 'bbox' | 'score' | 'trackId'>[];
 }
 
 export interface LogEntry {
   id: string;
   time: string;
   message: string;
-  type: 'info' | 'alert' | 'success' | 'warning' | 'error';
+  // 'forecast': a breach is predicted but hasn't happened yet
+  type: 'info' | 'alert' | 'forecast' | 'success' | 'warning' | 'error';
 }
 
 export interface Stats {
-  currentCount: number;
-  peakCount: number;
+  // Per counted class, always including 'person'
+  currentCounts: Record<string, number>;
+  peakCounts: Record<string, number>;
   avgCount: number;
   totalDetections: number;
   sessionStartTime: number | null;
 }
 
+export type RuleCondition =
+  // Whole-frame count at or above `value` (the global threshold when unset) for `forSeconds`
+  | { type: 'count-above'; value?: number; forSeconds: number }
+  // Count changed by at least `delta` within `windowSeconds`; negative deltas watch for drops
+  | { type: 'rate-of-change'; delta: number; windowSeconds: number }
+  | { type: 'zone-occupancy'; zoneId: string; value: number; forSeconds: number }
+  // Local wall-clock window, HH:MM; wraps past midnight when end < start
+  | { type: 'time-window'; start: string; end: string };
+
+export type RuleAction = 'sound' | 'banner' | 'log' | 'screenshot' | 'record' | 'notify';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // All conditions must hold for the rule to fire
+  conditions: RuleCondition[];
+  // Hysteresis: once active, the count-above condition stays met until the frame count drops below this
+  clearBelow?: number;
+  cooldownSeconds: number;
+  actions: RuleAction[];
+}
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  kind: 'webhook' | 'mqtt';
+  enabled: boolean;
+  // http(s):// for webhooks, ws(s):// for MQTT brokers
+  url: string;
+  // Webhook only: how the frame at the time of the alert is attached
+  snapshot: 'none' | 'base64' | 'multipart';
+  // MQTT only: publishes to <topicPrefix>/alert and, if enabled, <topicPrefix>/count
+  topicPrefix: string;
+  publishCounts: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface AlertNotification {
+  event: 'alert' | 'cleared' | 'test';
+  rule: string;
+  message: string;
+  count: number;
+  threshold: number;
+  timestamp: string;
+}
+
+export interface DeliveryRecord {
+  id: string;
+  channelId: string;
+  channelName: string;
+  event: AlertNotification['event'] | 'count';
+  status: 'pending' | 'delivered' | 'retrying' | 'failed';
+  attempts: number;
+  time: string;
+  detail?: string;
+}
+
+export type ModelKind = 'coco-ssd-lite' | 'coco-ssd' | 'blazeface' | 'custom';
+
+export type TfBackend = 'webgl' | 'wasm' | 'cpu';
+
+export interface DetectorConfig {
+  model: ModelKind;
+  backend: TfBackend;
+  // Custom graph model only: one label per line in class-index order; `label=person` maps a label to an app class
+  customLabels: string;
+  customName?: string;
+}
+
+// Area of the frame the TILED processing mode covers with tiles, in video pixels
+export interface TileRegion {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScheduleSettings {
+  // 'rate' aims for a number of detections per second; 'budget' keeps the detector busy for at most this share of the time
+  target: 'rate' | 'budget';
+  detectionsPerSecond: number;
+  cpuBudget: number;
+  // Reuse the last result while the picture doesn't change
+  skipStatic: boolean;
+}
+
 export enum DetectionSpeed {
   FAST = 'fast',
   NORMAL = 'normal',
-  ACCURATE = 'accurate'
+  ACCURATE = 'accurate',
+  // Detects on overlapping tiles as well as the whole frame, for small or distant people
+  TILED = 'tiled'
+}
+
+export interface SessionSettings {
+  threshold: number;
+  confidence: number;
+  detectionSpeed: DetectionSpeed;
+  schedule?: ScheduleSettings;
+  tileRegions?: TileRegion[];
+  classTargets?: ClassTarget[];
+  privacy?: Omit<PrivacySettings, 'pinHash'>;
+  soundEnabled: boolean;
+  dwellLimit: number;
+  zones: Zone[];
+  tripwires: Tripwire[];
+}
+
+// A continuous run at or above the threshold
+export interface Breach {
+  start: number;
+  end: number;
+  peakCount: number;
+}
+
+// Whole-session figures from the live aggregator, which sees every sample before
+// the stored history is thinned
+export interface SessionTotals {
+  samples: number;
+  avgCount: number;
+  timeAboveMs: number;
+  breaches: Breach[];
+  hourly: { start: number; avg: number; max: number }[];
+}
+
+export interface SessionRecord {
+  id: string;
+  source: string;
+  startTime: number;
+  endTime: number | null;
+  settings: SessionSettings;
+  series: CountSample[];
+  logs: LogEntry[];
+  peakCount: number;
+  lineCounts: Record<string, LineCounts>;
+  // Absent on sessions saved before incidents were tracked
+  incidents?: Incident[];
+  // Absent on sessions saved before totals were kept; their figures come from `series`
+  totals?: SessionTotals;
+}
+
+export interface PrivacySettings {
+  // Mask people in everything displayed, captured or recorded
+  enabled: boolean;
+  style: 'pixelate' | 'blur';
+  region: 'body' | 'head';
+  // SHA-256 of the admin PIN that unlocks the raw view and these settings
+  pinHash?: string;
+}
+
+export interface ClipSettings {
+  // Keep a rolling buffer of the composed feed while monitoring
+  enabled: boolean;
+  preSeconds: number;
+  postSeconds: number;
+}
+
+// A saved pre/post-event clip, stored in IndexedDB
+export interface EventClip {
+  id: string;
+  sessionId: string;
+  // Epoch milliseconds of the trigger
+  time: number;
+  reason: string;
+  counts: Record<string, number>;
+  blob: Blob;
+  // How much of the clip lies before the trigger; at least the configured pre-roll when the buffer was full
+  preRollMs: number;
+  durationMs: number;
+}
+
+export interface StoredScreenshot {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+  timestamp: string;
+  counts: Record<string, number>;
+  // People only; written before per-class counts existed
+  count?: number;
+  reason?: string;
+}
+
+export interface NetworkSourceSettings {
+  // http(s):// for MJPEG, rtsp(s):// for cameras that have to go through the relay
+  url: string;
+  // Base address of scripts/stream-relay.mjs
+  relayUrl: string;
+  // Fetch MJPEG through the relay too, for cameras that don't allow cross-origin requests
+  mjpegViaRelay: boolean;
+}
+
+export interface LocalApiSettings {
+  enabled: boolean;
+  // Base address of scripts/api-server.mjs
+  url: string;
+}
+
+// What the app pushes to the local API on every change, and once a second otherwise
+export interface LiveStatus {
+  monitoring: boolean;
+  source: string | null;
+  count: number;
+  // Session peak of people
+  peak: number;
+  threshold: number;
+  confidence: number;
+  // Anything is alerting: the crowd threshold, a zone, a class or an alert rule
+  alerting: boolean;
+  // 'crowd', 'zone:<name>', 'class:<name>' and 'rule:<name>' for whatever is alerting
+  alerts: string[];
+  // Keyed by zone name
+  zones: Record<string, number>;
+  classes: Record<string, number>;
+}
+
+// The Detection Parameters panel, as kept in a settings profile
+export interface ProfileSettings {
+  threshold: number;
+  confidence: number;
+  dwellLimit: number;
+  detectionSpeed: DetectionSpeed;
+  schedule: ScheduleSettings;
+  soundEnabled: boolean;
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+}
+
+// From `start` (local "HH:MM") every day until the next entry's start, `profileId` is switched to
+export interface ProfileSwitch {
+  id: string;
+  start: string;
+  profileId: string;
+}
+
+export interface ProfileStore {
+  profiles: SettingsProfile[];
+  activeId: string;
+  autoSwitch: {
+    enabled: boolean;
+    entries: ProfileSwitch[];
+  };
+}
+
+export type IncidentState = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+// One continuous alert, from when it starts until it clears or an operator resolves it
+export interface Incident {
+  id: string;
+  // What is alerting: 'rule:<id>', 'zone:<id>', 'class:<name>' or 'camera:<id>'
+  key: string;
+  title: string;
+  detail: string;
+  state: IncidentState;
+  openedAt: number;
+  peakCount: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  note?: string;
+  snoozedUntil?: number;
+  resolvedAt?: number;
+  // Operator who resolved it; absent when it resolved itself because the alert cleared
+  resolvedBy?: string;
 }
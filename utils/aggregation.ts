@@ -0,0 +1,205 @@
+import { Breach, CountSample, SessionTotals } from '../types';
+
+export type Resolution = '1s' | '1m' | '15m' | '1h';
+
+// Bucket width and how many buckets of each resolution are kept
+export const RESOLUTIONS: Record<Resolution, { ms: number; retain: number }> = {
+  '1s': { ms: 1000, retain: 3600 },
+  '1m': { ms: 60 * 1000, retain: 24 * 60 },
+  '15m': { ms: 15 * 60 * 1000, retain: 7 * 24 * 4 },
+  '1h': { ms: 60 * 60 * 1000, retain: 30 * 24 }
+};
+
+export type TimeRange = '5m' | '1h' | '24h' | '7d';
+
+// Each range is drawn from the finest resolution that still covers it
+export const TIME_RANGES: { id: TimeRange; label: string; resolution: Resolution; spanMs: number }[] = [
+  { id: '5m', label: '5 min', resolution: '1s', spanMs: 5 * 60 * 1000 },
+  { id: '1h', label: '1 hour', resolution: '1m', spanMs: 60 * 60 * 1000 },
+  { id: '24h', label: '24 hours', resolution: '15m', spanMs: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: '7 days', resolution: '1h', spanMs: 7 * 24 * 60 * 60 * 1000 }
+];
+
+// A gap between samples longer than this (paused feed, hidden tab) is not credited in full
+const MAX_GAP_MS = 60 * 1000;
+
+// Raw samples keep their detections this long; older ones are thinned out
+const RAW_RETENTION_MS = 10 * 60 * 1000;
+// Beyond this, history is kept at one sample per minute
+const SECOND_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+interface SeriesStats {
+  samples: number;
+  sum: number;
+  min: number;
+  max: number;
+  // histogram[v]: samples with value v; counts are small integers, so percentiles stay exact
+  histogram: number[];
+}
+
+interface Bucket {
+  start: number;
+  series: Record<string, SeriesStats>;
+}
+
+export interface BucketSummary {
+  start: number;
+  samples: number;
+  min: number;
+  max: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+const percentile = (stats: SeriesStats, q: number) => {
+  const target = q * stats.samples;
+  let seen = 0;
+  for (let v = 0; v < stats.histogram.length; v++) {
+    seen += stats.histogram[v] ?? 0;
+    if (seen >= target) return v;
+  }
+  return stats.max;
+};
+
+const summarize = (start: number, stats: SeriesStats): BucketSummary => ({
+  start,
+  samples: stats.samples,
+  min: stats.min,
+  max: stats.max,
+  avg: stats.sum / stats.samples,
+  p50: percentile(stats, 0.5),
+  p90: percentile(stats, 0.9),
+  p95: percentile(stats, 0.95)
+});
+
+const addValue = (bucket: Bucket, key: string, value: number) => {
+  const v = Math.max(0, Math.round(value));
+  const stats = bucket.series[key] ?? (bucket.series[key] = { samples: 0, sum: 0, min: v, max: v, histogram: [] });
+  stats.samples++;
+  stats.sum += v;
+  stats.min = Math.min(stats.min, v);
+  stats.max = Math.max(stats.max, v);
+  stats.histogram[v] = (stats.histogram[v] ?? 0) + 1;
+};
+
+/**
+ * Rolls count samples up into 1 s, 1 min, 15 min and 1 h buckets with min,
+ * average, max and percentiles per series. Series are keyed by name: 'count'
+ * for the whole frame, `zone:<id>` and `class:<name>` for the breakdowns.
+ * Also tracks time spent at or above the threshold and each run above it.
+ */
+export const createAggregator = () => {
+  let buckets = {} as Record<Resolution, Bucket[]>;
+  let totalSamples = 0;
+  let totalSum = 0;
+  let aboveMs = 0;
+  let breaches: Breach[] = [];
+  let above = false;
+  let lastT: number | null = null;
+
+  const reset = () => {
+    buckets = { '1s': [], '1m': [], '15m': [], '1h': [] };
+    totalSamples = 0;
+    totalSum = 0;
+    aboveMs = 0;
+    breaches = [];
+    above = false;
+    lastT = null;
+  };
+  reset();
+
+  const add = (t: number, values: Record<string, number>, threshold: number) => {
+    const count = values.count ?? 0;
+    if (lastT !== null && above) aboveMs += Math.min(Math.max(0, t - lastT), MAX_GAP_MS);
+    const nowAbove = count >= threshold;
+    if (nowAbove) {
+      const current = breaches[breaches.length - 1];
+      if (above && current) {
+        current.end = t;
+        current.peakCount = Math.max(current.peakCount, count);
+      } else {
+        breaches.push({ start: t, end: t, peakCount: count });
+      }
+    }
+    above = nowAbove;
+    lastT = t;
+    totalSamples++;
+    totalSum += count;
+
+    (Object.keys(RESOLUTIONS) as Resolution[]).forEach(resolution => {
+      const { ms, retain } = RESOLUTIONS[resolution];
+      const start = Math.floor(t / ms) * ms;
+      const list = buckets[resolution];
+      let bucket = list[list.length - 1];
+      if (!bucket || bucket.start !== start) {
+        bucket = { start, series: {} };
+        list.push(bucket);
+        if (list.length > retain) list.splice(0, list.length - retain);
+      }
+      Object.entries(values).forEach(([key, value]) => addValue(bucket, key, value));
+    });
+  };
+
+  const series = (resolution: Resolution, key: string, since = 0): BucketSummary[] =>
+    buckets[resolution]
+      .filter(b => b.start >= since && b.series[key])
+      .map(b => summarize(b.start, b.series[key]));
+
+  const summary = () => ({
+    samples: totalSamples,
+    avgCount: totalSamples > 0 ? totalSum / totalSamples : 0,
+    timeAboveMs: aboveMs,
+    breaches: breaches.length
+  });
+
+  // Saved with the session, so reports don't depend on the thinned history
+  const totals = (): SessionTotals => ({
+    samples: totalSamples,
+    avgCount: totalSamples > 0 ? totalSum / totalSamples : 0,
+    timeAboveMs: aboveMs,
+    breaches: breaches.map(b => ({ ...b })),
+    hourly: series('1h', 'count').map(h => ({ start: h.start, avg: h.avg, max: h.max }))
+  });
+
+  return { add, series, summary, totals, reset };
+};
+
+export type Aggregator = ReturnType<typeof createAggregator>;
+
+// Feeds stored samples through an aggregator, e.g. for a saved session
+export const aggregateSeries = (series: CountSample[], threshold: number) => {
+  const aggregator = createAggregator();
+  series.forEach(s => aggregator.add(s.t, { count: s.count }, threshold));
+  return aggregator;
+};
+
+// Keeps the highest-count sample per `ms` slot, without per-detection detail
+const thin = (samples: CountSample[], ms: number) => {
+  const slots = new Map<number, CountSample>();
+  samples.forEach(s => {
+    const slot = Math.floor(s.t / ms);
+    const kept = slots.get(slot);
+    if (!kept || s.count > kept.count) {
+      const { detections, ...rest } = s;
+      slots.set(slot, rest);
+    }
+  });
+  return Array.from(slots.values());
+};
+
+/**
+ * Bounds the in-memory sample history: the last ten minutes stay as recorded,
+ * up to six hours back is kept at one sample per second and anything older at
+ * one per minute. Thinning keeps each slot's peak, so session peaks survive;
+ * averages and breaches are taken from the aggregator's totals instead.
+ */
+export const compactHistory = (samples: CountSample[], now: number) => {
+  const rawFrom = now - RAW_RETENTION_MS;
+  const secondFrom = now - SECOND_RETENTION_MS;
+  const old = samples.filter(s => s.t < secondFrom);
+  const middle = samples.filter(s => s.t >= secondFrom && s.t < rawFrom);
+  const recent = samples.filter(s => s.t >= rawFrom);
+  return [...thin(old, RESOLUTIONS['1m'].ms), ...thin(middle, RESOLUTIONS['1s'].ms), ...recent];
+};
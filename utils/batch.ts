@@ -0,0 +1,92 @@
+import { DetectionScheduler } from './scheduler';
+
+export interface BatchSample {
+  // Position in the file, seconds
+  time: number;
+  count: number;
+}
+
+export interface BatchOptions {
+  // Seconds of footage between analysed frames
+  sampleInterval: number;
+  confidence: number;
+  signal: AbortSignal;
+  onProgress: (fraction: number, samples: BatchSample[]) => void;
+}
+
+const waitForEvent = (target: HTMLMediaElement, event: string, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new DOMException('Batch analysis cancelled', 'AbortError'));
+    };
+    const onEvent = () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// How long to wait for the browser to work out the length of a file that doesn't state it
+const DURATION_TIMEOUT_MS = 10000;
+
+/**
+ * WebM from MediaRecorder, including the app's own recordings and event clips,
+ * has no duration in its header, so the element reports Infinity or NaN until
+ * it has been seeked to the end. Seeking far past the end makes it find out.
+ */
+const resolveDuration = async (video: HTMLVideoElement, signal: AbortSignal) => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const deadline = Date.now() + DURATION_TIMEOUT_MS;
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  while (!Number.isFinite(video.duration) && Date.now() < deadline) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, deadline - Date.now()); });
+    await Promise.race([waitForEvent(video, 'durationchange', signal), timeout]);
+    clearTimeout(timer);
+  }
+  if (!Number.isFinite(video.duration)) throw new Error('the length of the video could not be determined');
+  return video.duration;
+};
+
+/**
+ * Counts people through a video file by seeking frame to frame rather than
+ * playing it, so analysis runs as fast as inference allows. Works on its own
+ * detached video element and never touches the live session.
+ */
+export const analyzeVideoFile = async (
+  file: File,
+  scheduler: DetectionScheduler,
+  { sampleInterval, confidence, signal, onProgress }: BatchOptions
+): Promise<BatchSample[]> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForEvent(video, 'loadedmetadata', signal);
+    const duration = await resolveDuration(video, signal);
+    const samples: BatchSample[] = [];
+
+    for (let time = 0; time < duration; time += sampleInterval) {
+      if (signal.aborted) throw new DOMException('Batch analysis cancelled', 'AbortError');
+      const seeked = waitForEvent(video, 'seeked', signal);
+      video.currentTime = time;
+      await seeked;
+
+      const predictions = await scheduler.detect(video);
+      const count = predictions.filter(p => p.class === 'person' && p.score >= confidence).length;
+      samples.push({ time, count });
+      onProgress(Math.min(1, (time + sampleInterval) / duration), samples);
+    }
+
+    return samples;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
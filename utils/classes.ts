@@ -0,0 +1,74 @@
+import { ClassTarget, Detection, DetectorConfig } from '../types';
+import { parseCustomLabels } from './models';
+
+const STORAGE_KEY = 'dx-class-targets';
+
+// People are always counted; they drive zones, tripwires, loitering and the alert rules
+export const PERSON_CLASS = 'person';
+export const PERSON_COLOR = '#10b981';
+
+// Labels produced by the COCO-SSD models, in the model's class order
+export const COCO_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat', 'traffic light',
+  'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog', 'horse', 'sheep', 'cow',
+  'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket', 'bottle',
+  'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch', 'potted plant', 'bed',
+  'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven',
+  'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier', 'toothbrush'
+];
+
+export const CLASS_COLORS = ['#f59e0b', '#8b5cf6', '#06b6d4', '#f43f5e', '#84cc16', '#eab308', '#14b8a6'];
+
+// Classes the loaded model can report, besides people
+export const availableClasses = (config: DetectorConfig) => {
+  if (config.model === 'blazeface') return [];
+  if (config.model === 'custom') {
+    const { labels, classMap } = parseCustomLabels(config.customLabels);
+    return Array.from(new Set(labels.map(l => classMap[l] ?? l))).filter(c => c !== PERSON_CLASS);
+  }
+  return COCO_CLASSES.filter(c => c !== PERSON_CLASS);
+};
+
+export const loadClassTargets = (): ClassTarget[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveClassTargets = (targets: ClassTarget[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(targets));
+};
+
+export const classColor = (name: string, targets: ClassTarget[]) =>
+  name === PERSON_CLASS ? PERSON_COLOR : targets.find(t => t.class === name)?.color ?? '#a3a3a3';
+
+// Count per counted class, always including people
+export const countByClass = (detections: Detection[], targets: ClassTarget[]): Record<string, number> => {
+  const counts: Record<string, number> = { [PERSON_CLASS]: 0 };
+  targets.forEach(t => {
+    counts[t.class] = 0;
+  });
+  detections.forEach(d => {
+    if (d.class in counts) counts[d.class]++;
+  });
+  return counts;
+};
+
+// Extra classes whose own threshold is currently met
+export const classesInAlert = (targets: ClassTarget[], counts: Record<string, number>) =>
+  targets.filter(t => (counts[t.class] ?? 0) >= t.threshold);
+
+const plural = (name: string, count: number) =>
+  count === 1 || name.endsWith('s') ? name : name === PERSON_CLASS ? 'people' : `${name}s`;
+
+// "3 people · 1 backpack"; classes at zero are left out, except people
+export const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .filter(([name, count]) => name === PERSON_CLASS || count > 0)
+    .map(([name, count]) => `${count} ${plural(name, count)}`)
+    .join(' · ');
@@ -0,0 +1,164 @@
+import { ClipSettings } from '../types';
+
+const STORAGE_KEY = 'dx-clip-settings';
+
+export const DEFAULT_CLIP_SETTINGS: ClipSettings = {
+  enabled: true,
+  preSeconds: 10,
+  postSeconds: 5
+};
+
+// Recorders kept running side by side; more means less surplus pre-roll but more encoding work
+const RING_SIZE = 3;
+const CHUNK_MS = 1000;
+const FRAME_RATE = 30;
+
+export const loadClipSettings = (): ClipSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CLIP_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CLIP_SETTINGS;
+  } catch {
+    return DEFAULT_CLIP_SETTINGS;
+  }
+};
+
+export const saveClipSettings = (settings: ClipSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface CapturedClip {
+  blob: Blob;
+  preRollMs: number;
+  durationMs: number;
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  // Set once an event has claimed this recorder; it then runs until the post-roll is done
+  claimed: boolean;
+}
+
+/**
+ * Continuously records the composed feed (video plus detection overlay) so an
+ * event can be saved with the seconds that led up to it.
+ *
+ * WebM chunks can't be cut at arbitrary points, so instead of one recorder with
+ * a rolling chunk list this keeps a few staggered recorders alive, each restarted
+ * once it is older than the pre-roll plus the stagger. Whatever the moment of an
+ * event, one of them started at least `preSeconds` earlier; it is kept running
+ * for `postSeconds` and its file becomes the clip.
+ */
+export const createClipRecorder = () => {
+  let settings = DEFAULT_CLIP_SETTINGS;
+  let segments: Segment[] = [];
+  let canvas: HTMLCanvasElement | null = null;
+  let stream: MediaStream | null = null;
+  let animation: number | null = null;
+  let maintenance: ReturnType<typeof setInterval> | null = null;
+
+  const staggerMs = () => (settings.preSeconds * 1000) / (RING_SIZE - 1);
+
+  const startSegment = () => {
+    if (!stream) return;
+    const segment: Segment = {
+      recorder: new MediaRecorder(stream, { mimeType: 'video/webm' }),
+      chunks: [],
+      startedAt: Date.now(),
+      claimed: false
+    };
+    segment.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) segment.chunks.push(e.data);
+    };
+    segment.recorder.start(CHUNK_MS);
+    segments.push(segment);
+  };
+
+  const discard = (segment: Segment) => {
+    if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+    segments = segments.filter(s => s !== segment);
+  };
+
+  // Recycles recorders that are too old to be the best pre-roll and starts a new one every stagger
+  const maintain = () => {
+    const now = Date.now();
+    const unclaimed = segments.filter(s => !s.claimed);
+    unclaimed
+      .filter(s => now - s.startedAt >= settings.preSeconds * 1000 + staggerMs())
+      .forEach(discard);
+    const youngest = segments.filter(s => !s.claimed).reduce((max, s) => Math.max(max, s.startedAt), 0);
+    if (now - youngest >= staggerMs()) startSegment();
+  };
+
+  // `frame` supplies the picture to record, e.g. the privacy-masked feed instead of the raw video
+  const start = (video: HTMLVideoElement, overlay: HTMLCanvasElement, frame: () => CanvasImageSource = () => video) => {
+    if (stream) return;
+    canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    const draw = () => {
+      ctx?.drawImage(frame(), 0, 0);
+      ctx?.drawImage(overlay, 0, 0);
+      animation = requestAnimationFrame(draw);
+    };
+    draw();
+    stream = canvas.captureStream(FRAME_RATE);
+    startSegment();
+    maintenance = setInterval(maintain, 500);
+  };
+
+  const stop = () => {
+    if (maintenance) clearInterval(maintenance);
+    maintenance = null;
+    // Claimed recorders finish their post-roll on their own
+    segments.filter(s => !s.claimed).forEach(discard);
+    if (animation !== null) cancelAnimationFrame(animation);
+    animation = null;
+    stream = null;
+    canvas = null;
+  };
+
+  const setSettings = (next: ClipSettings) => {
+    settings = next;
+  };
+
+  // Resolves once the post-roll has been recorded, or null when nothing is buffered
+  const capture = (): Promise<CapturedClip | null> => {
+    const triggeredAt = Date.now();
+    const candidates = segments.filter(s => !s.claimed);
+    if (candidates.length === 0) return Promise.resolve(null);
+    // The youngest recorder that already covers the full pre-roll, else the oldest there is
+    const covering = candidates.filter(s => triggeredAt - s.startedAt >= settings.preSeconds * 1000);
+    const segment = covering.length > 0
+      ? covering.reduce((best, s) => (s.startedAt > best.startedAt ? s : best))
+      : candidates.reduce((best, s) => (s.startedAt < best.startedAt ? s : best));
+    segment.claimed = true;
+    // Keep the ring full while this recorder is set aside
+    if (stream) startSegment();
+
+    return new Promise(resolve => {
+      setTimeout(() => {
+        const finish = () => {
+          segments = segments.filter(s => s !== segment);
+          resolve({
+            blob: new Blob(segment.chunks, { type: 'video/webm' }),
+            preRollMs: triggeredAt - segment.startedAt,
+            durationMs: Date.now() - segment.startedAt
+          });
+        };
+        if (segment.recorder.state === 'inactive') {
+          finish();
+        } else {
+          segment.recorder.onstop = finish;
+          segment.recorder.stop();
+        }
+      }, settings.postSeconds * 1000);
+    });
+  };
+
+  return { start, stop, setSettings, capture, isRunning: () => stream !== null };
+};
+
+export type ClipRecorder = ReturnType<typeof createClipRecorder>;
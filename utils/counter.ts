@@ -0,0 +1,184 @@
+import { AlertRule, ClassTarget, CountSample, Detection, LogEntry, Tripwire, Zone } from '../types';
+import { createTracker, DEFAULT_MAX_COAST_MS, TrackerOptions } from './tracker';
+import { createLineCounter } from './lines';
+import { countByZone, zonesInAlert } from './zones';
+import { createDwellMonitor, DwellState, formatElapsed } from './dwell';
+import { createRuleEngine, DEFAULT_RULES, describeCondition } from './rules';
+import { classesInAlert, countByClass, PERSON_CLASS } from './classes';
+
+// The counting pipeline shared by the app and the dx-count CLI. No DOM, React
+// or tfjs imports: it takes raw model predictions and returns counts and events.
+
+export interface Prediction {
+  bbox: [number, number, number, number];
+  class: string;
+  score: number;
+}
+
+export interface CounterSettings {
+  confidence: number;
+  threshold: number;
+  classTargets: ClassTarget[];
+  zones: Zone[];
+  tripwires: Tripwire[];
+  // Seconds a person may stand in one place before it counts as loitering
+  dwellLimit: number;
+  rules: AlertRule[];
+}
+
+// What a fresh install of the app starts with
+export const DEFAULT_COUNTER_SETTINGS: CounterSettings = {
+  confidence: 0.5,
+  threshold: 3,
+  classTargets: [],
+  zones: [],
+  tripwires: [],
+  dwellLimit: 0,
+  rules: DEFAULT_RULES
+};
+
+export type CounterEvent =
+  | { kind: 'crossing'; lineId: string; trackId: number; direction: 'in' | 'out' }
+  | { kind: 'class-threshold'; className: string; threshold: number; count: number }
+  | { kind: 'zone-threshold'; zoneId: string; threshold: number; count: number }
+  | { kind: 'loitering'; trackId: number; zoneId?: string; seconds: number }
+  | { kind: 'rule-fired'; rule: AlertRule; count: number }
+  | { kind: 'rule-cleared'; rule: AlertRule; count: number };
+
+export interface CounterFrame {
+  // Every counted detection, people and extra classes, with track IDs
+  tracked: Detection[];
+  people: Detection[];
+  count: number;
+  // Per counted class, always including 'person'
+  classCounts: Record<string, number>;
+  zoneCounts: Record<string, number>;
+  alertingClasses: ClassTarget[];
+  alertingZones: Zone[];
+  dwellStates: Map<number, DwellState>;
+  activeRules: AlertRule[];
+  // Things that happened on this cycle, in the order the app logs them
+  events: CounterEvent[];
+  sample: CountSample;
+}
+
+/**
+ * Tracks, counts and evaluates thresholds, tripwires, loitering and alert
+ * rules for one feed. `now` is a monotonic clock in milliseconds used for
+ * tracking and dwell times; `time` is the wall-clock epoch milliseconds the
+ * result is stamped with and rules are evaluated at. Both only have to move
+ * forward, so a file can be processed at its own pace with video positions.
+ * Sparse frames need a longer `maxCoastMs` so tracks survive between them.
+ */
+export const createCounter = (trackerOptions: Partial<TrackerOptions> = {}) => {
+  const tracker = createTracker(trackerOptions);
+  const lineCounter = createLineCounter(trackerOptions.maxCoastMs ?? DEFAULT_MAX_COAST_MS);
+  const dwellMonitor = createDwellMonitor();
+  const ruleEngine = createRuleEngine();
+  // Thresholds met on the previous cycle, so only rising edges become events
+  let alertingClassNames = new Set<string>();
+  let alertingZoneIds = new Set<string>();
+
+  const process = (predictions: Prediction[], settings: CounterSettings, now: number, time: number): CounterFrame => {
+    const { confidence, threshold, classTargets, zones, tripwires, dwellLimit, rules } = settings;
+    const counted = new Set([PERSON_CLASS, ...classTargets.map(t => t.class)]);
+    const candidates: Detection[] = predictions.filter(p => counted.has(p.class) && p.score >= confidence);
+    const tracked = tracker.update(candidates, now);
+    // Lines, zones, loitering and the alert rules are about people; other classes are counted on their own
+    const people = tracked.filter(d => d.class === PERSON_CLASS);
+    const count = people.length;
+    const classCounts = countByClass(tracked, classTargets);
+    const extraCounts = Object.fromEntries(classTargets.map(t => [t.class, classCounts[t.class]]));
+    const events: CounterEvent[] = [];
+
+    lineCounter.update(people, tripwires, now).forEach(c => events.push({ kind: 'crossing', ...c }));
+
+    const alertingClasses = classesInAlert(classTargets, classCounts);
+    alertingClasses
+      .filter(t => !alertingClassNames.has(t.class))
+      .forEach(t => events.push({ kind: 'class-threshold', className: t.class, threshold: t.threshold, count: classCounts[t.class] }));
+    alertingClassNames = new Set(alertingClasses.map(t => t.class));
+
+    const zoneCounts = countByZone(people, zones);
+    const alertingZones = zonesInAlert(zones, zoneCounts);
+    alertingZones
+      .filter(z => !alertingZoneIds.has(z.id))
+      .forEach(z => events.push({ kind: 'zone-threshold', zoneId: z.id, threshold: z.threshold, count: zoneCounts[z.id] }));
+    alertingZoneIds = new Set(alertingZones.map(z => z.id));
+
+    const dwell = dwellMonitor.update(people, zones, dwellLimit, now);
+    dwell.violations.forEach(v => events.push({ kind: 'loitering', ...v }));
+
+    const evaluation = ruleEngine.evaluate(rules, { now: time, count, threshold, zoneCounts });
+    evaluation.fired.forEach(rule => events.push({ kind: 'rule-fired', rule, count }));
+    evaluation.cleared.forEach(rule => events.push({ kind: 'rule-cleared', rule, count }));
+
+    return {
+      tracked,
+      people,
+      count,
+      classCounts,
+      zoneCounts,
+      alertingClasses,
+      alertingZones,
+      dwellStates: dwell.states,
+      activeRules: evaluation.active,
+      events,
+      sample: {
+        t: time,
+        count,
+        ...(zones.length > 0 ? { zones: zoneCounts } : {}),
+        ...(classTargets.length > 0 ? { classes: extraCounts } : {}),
+        detections: people.map(d => ({
+          bbox: d.bbox.map(Math.round) as Detection['bbox'],
+          score: Math.round(d.score * 1000) / 1000,
+          trackId: d.trackId
+        }))
+      }
+    };
+  };
+
+  const reset = () => {
+    tracker.reset();
+    lineCounter.reset();
+    dwellMonitor.reset();
+    ruleEngine.reset();
+    alertingClassNames = new Set();
+    alertingZoneIds = new Set();
+  };
+
+  return {
+    process,
+    reset,
+    trail: (trackId: number) => tracker.getTrail(trackId),
+    dwellDurations: () => dwellMonitor.durations()
+  };
+};
+
+export type Counter = ReturnType<typeof createCounter>;
+
+// The activity log line for an event and its severity; rule events are only logged when the rule has the log action
+export const describeEvent = (event: CounterEvent, settings: Pick<CounterSettings, 'zones' | 'tripwires'>): Pick<LogEntry, 'message' | 'type'> => {
+  const zoneName = (id: string) => settings.zones.find(z => z.id === id)?.name ?? 'zone';
+  switch (event.kind) {
+    case 'crossing': {
+      const line = settings.tripwires.find(t => t.id === event.lineId);
+      return { message: `${line?.name ?? 'Line'}: #${event.trackId} ${event.direction === 'in' ? 'entered' : 'exited'}.`, type: 'info' };
+    }
+    case 'class-threshold':
+      return { message: `Threshold of ${event.threshold} exceeded for ${event.className}.`, type: 'alert' };
+    case 'zone-threshold':
+      return { message: `Threshold of ${event.threshold} exceeded in ${zoneName(event.zoneId)}.`, type: 'alert' };
+    case 'loitering': {
+      const where = event.zoneId ? `in ${zoneName(event.zoneId)}` : 'in one place';
+      return { message: `Loitering: #${event.trackId} has stayed ${where} for ${formatElapsed(event.seconds)}.`, type: 'alert' };
+    }
+    case 'rule-fired':
+      return {
+        message: `${event.rule.name}: ${event.rule.conditions.map(c => describeCondition(c, zoneName)).join(', ')} (count ${event.count}).`,
+        type: 'alert'
+      };
+    case 'rule-cleared':
+      return { message: `${event.rule.name} cleared.`, type: 'info' };
+  }
+};
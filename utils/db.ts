@@ -0,0 +1,65 @@
+const DB_NAME = 'dx-surveillance';
+const DB_VERSION = 2;
+
+export type StoreName = 'sessions' | 'screenshots' | 'events';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version step only adds what it introduced, so older databases upgrade in place
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    const screenshots = db.createObjectStore('screenshots', { keyPath: 'id' });
+    screenshots.createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 2) {
+    const events = db.createObjectStore('events', { keyPath: 'id' });
+    events.createIndex('sessionId', 'sessionId');
+  }
+};
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+};
+
+export const putRecord = <T>(store: StoreName, value: T) =>
+  withStore(store, 'readwrite', s => s.put(value));
+
+export const getRecord = <T>(store: StoreName, key: string) =>
+  withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+
+export const getAllRecords = <T>(store: StoreName) =>
+  withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const getRecordsByIndex = <T>(store: StoreName, index: string, key: IDBValidKey) =>
+  withStore(store, 'readonly', s => s.index(index).getAll(key) as IDBRequest<T[]>);
+
+export const deleteRecord = (store: StoreName, key: string) =>
+  withStore(store, 'readwrite', s => s.delete(key));
+
+export const deleteRecordsByIndex = async (store: StoreName, index: string, key: IDBValidKey) => {
+  const keys = await withStore(store, 'readonly', s => s.index(index).getAllKeys(key));
+  await Promise.all(keys.map(k => withStore(store, 'readwrite', s => s.delete(k))));
+};
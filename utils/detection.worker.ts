@@ -0,0 +1,116 @@
+import * as tf from '@tensorflow/tfjs';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+import { Detector, loadDetector } from './detectors';
+import { computeTiles, nonMaxSuppression, TilingOptions } from './tiling';
+
+// Runs the tfjs pipeline off the UI thread. tfjs renders to an OffscreenCanvas
+// here, so the webgl backend works inside the worker.
+
+// The DOM lib has no worker global scope type; Worker has the same messaging surface
+const scope = self as unknown as Worker;
+
+type DetectRequest = Extract<WorkerRequest, { type: 'detect' }>;
+type LoadRequest = Extract<WorkerRequest, { type: 'load' }>;
+
+const post = (message: WorkerResponse) => scope.postMessage(message);
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+let detector: Detector | null = null;
+// The running queue loop, if any; a model swap waits for it to finish
+let processing: Promise<void> | null = null;
+// Serialises model loads so a quick second change can't interleave with the first
+let loading: Promise<void> = Promise.resolve();
+// At most one waiting frame per source, in arrival order
+const queue = new Map<string, DetectRequest>();
+
+const drop = (request: DetectRequest) => {
+  request.frame.close();
+  post({ type: 'dropped', requestId: request.requestId, sourceId: request.sourceId });
+};
+
+// A full-frame pass finds people close to the camera; each tile is then upscaled
+// by the model on its own, which finds the small, distant ones
+const detectTiled = async (model: Detector, input: tf.Tensor3D, tiling: TilingOptions) => {
+  const [height, width] = input.shape;
+  const found = await model.detect(input);
+  for (const tile of computeTiles(width, height, tiling)) {
+    const crop = tf.slice(input, [tile.y, tile.x, 0], [tile.height, tile.width, 3]);
+    try {
+      const objects = await model.detect(crop);
+      objects.forEach(o => found.push({ ...o, bbox: [o.bbox[0] + tile.x, o.bbox[1] + tile.y, o.bbox[2], o.bbox[3]] }));
+    } finally {
+      crop.dispose();
+    }
+  }
+  return nonMaxSuppression(found);
+};
+
+const runQueue = async () => {
+  while (queue.size > 0 && detector) {
+    const [sourceId, request] = queue.entries().next().value!;
+    queue.delete(sourceId);
+    if (request.maxAgeMs !== undefined && Date.now() - request.capturedAt > request.maxAgeMs) {
+      drop(request);
+      continue;
+    }
+
+    const started = performance.now();
+    try {
+      const input = tf.browser.fromPixels(request.frame);
+      request.frame.close();
+      try {
+        const predictions = request.tiling
+          ? await detectTiled(detector, input, request.tiling)
+          : await detector.detect(input);
+        post({ type: 'result', requestId: request.requestId, sourceId, predictions, inferenceMs: performance.now() - started });
+      } finally {
+        input.dispose();
+      }
+    } catch (err) {
+      request.frame.close();
+      post({ type: 'error', requestId: request.requestId, sourceId, message: errorMessage(err) });
+    }
+  }
+};
+
+const processQueue = () => {
+  if (processing || !detector) return;
+  processing = runQueue().finally(() => {
+    processing = null;
+  });
+};
+
+const load = async ({ requestId, config, files }: LoadRequest) => {
+  const previous = detector;
+  detector = null;
+  await processing;
+  previous?.dispose();
+  try {
+    const loaded = await loadDetector(config, files);
+    detector = loaded.detector;
+    post({ type: 'loaded', requestId, backend: loaded.backend, cached: loaded.cached });
+  } catch (err) {
+    post({ type: 'load-error', requestId, message: errorMessage(err) });
+  }
+  processQueue();
+};
+
+scope.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'load':
+      loading = loading.then(() => load(request));
+      break;
+    case 'detect': {
+      const stale = queue.get(request.sourceId);
+      if (stale) {
+        queue.delete(request.sourceId);
+        drop(stale);
+      }
+      queue.set(request.sourceId, request);
+      processQueue();
+      break;
+    }
+  }
+};
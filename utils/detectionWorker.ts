@@ -0,0 +1,98 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+import { DetectorConfig } from '../types';
+import type { TilingOptions } from './tiling';
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (err: Error) => void;
+}
+
+export interface DetectionResult {
+  predictions: DetectedObject[];
+  // Time the worker spent on this frame, excluding time queued
+  inferenceMs: number;
+}
+
+export interface LoadResult {
+  backend: string;
+  cached: boolean;
+}
+
+/**
+ * UI-thread handle on the detection worker. `detect` transfers the frame to the
+ * worker and resolves with its result, or with null when the worker
+ * dropped the frame in favour of a newer one from the same source.
+ */
+export const createWorkerDetector = () => {
+  const worker = new Worker(new URL('./detection.worker.ts', import.meta.url), { type: 'module' });
+  const detections = new Map<number, PendingRequest<DetectionResult | null>>();
+  const loads = new Map<number, PendingRequest<LoadResult>>();
+  let nextRequestId = 1;
+  let backend = '';
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'loaded' || message.type === 'load-error') {
+      const request = loads.get(message.requestId);
+      loads.delete(message.requestId);
+      if (message.type === 'loaded') {
+        backend = message.backend;
+        request?.resolve({ backend: message.backend, cached: message.cached });
+      } else {
+        request?.reject(new Error(message.message));
+      }
+      return;
+    }
+
+    const request = detections.get(message.requestId);
+    if (!request) return;
+    detections.delete(message.requestId);
+    switch (message.type) {
+      case 'result':
+        request.resolve({ predictions: message.predictions, inferenceMs: message.inferenceMs });
+        break;
+      case 'dropped':
+        request.resolve(null);
+        break;
+      case 'error':
+        request.reject(new Error(message.message));
+        break;
+    }
+  };
+
+  // Settle everything in flight, so scheduler cycles waiting on a crashed worker don't hang
+  const rejectPending = (error: Error) => {
+    detections.forEach(p => p.reject(error));
+    loads.forEach(p => p.reject(error));
+    detections.clear();
+    loads.clear();
+  };
+
+  worker.onerror = (e) => rejectPending(new Error(e.message || 'Detection worker failed'));
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  const load = (config: DetectorConfig, files?: File[]) =>
+    new Promise<LoadResult>((resolve, reject) => {
+      const requestId = nextRequestId++;
+      loads.set(requestId, { resolve, reject });
+      post({ type: 'load', requestId, config, files });
+    });
+
+  const detect = (sourceId: string, frame: ImageBitmap, maxAgeMs?: number, tiling?: TilingOptions) =>
+    new Promise<DetectionResult | null>((resolve, reject) => {
+      const requestId = nextRequestId++;
+      detections.set(requestId, { resolve, reject });
+      post({ type: 'detect', requestId, sourceId, frame, capturedAt: Date.now(), maxAgeMs, tiling }, [frame]);
+    });
+
+  const terminate = () => {
+    worker.terminate();
+    rejectPending(new Error('Detection worker terminated'));
+  };
+
+  return { load, detect, terminate, backend: () => backend };
+};
+
+export type WorkerDetector = ReturnType<typeof createWorkerDetector>;
@@ -0,0 +1,182 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import * as blazeface from '@tensorflow-models/blazeface';
+import wasmPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import { DetectorConfig, TfBackend } from '../types';
+import { MAX_BOXES, MIN_SCORE, parseCustomLabels } from './models';
+
+// Detector implementations. Runs inside utils/detection.worker.ts.
+
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmPath,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdPath,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdPath
+});
+
+export interface Detector {
+  detect: (input: tf.Tensor3D) => Promise<cocoSsd.DetectedObject[]>;
+  dispose: () => void;
+}
+
+export interface LoadedDetector {
+  detector: Detector;
+  backend: string;
+  // True when every model file came from the IndexedDB cache
+  cached: boolean;
+}
+
+const COCO_SSD_URLS = {
+  lite_mobilenet_v2: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json',
+  mobilenet_v2: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssd_mobilenet_v2/model.json'
+};
+const BLAZEFACE_URL = 'https://tfhub.dev/tensorflow/tfjs-model/blazeface/1/default/1';
+const CUSTOM_CACHE_URL = 'indexeddb://dx-model-custom';
+
+// Raw model labels -> app classes. Unmapped labels pass through unchanged;
+// COCO labels already are the app's class names.
+const COCO_CLASS_MAP: Record<string, string> = {};
+const BLAZEFACE_CLASS_MAP: Record<string, string> = { face: 'person' };
+
+const mapClasses = (objects: cocoSsd.DetectedObject[], classMap: Record<string, string>) =>
+  objects.map(o => ({ ...o, class: classMap[o.class] ?? o.class }));
+
+/**
+ * Returns a URL to load the model from, copying it into IndexedDB first when
+ * it isn't there yet so the next start works offline. If the copy can't be
+ * written (e.g. storage is full) the remote URL is used as is.
+ */
+const cachedModelUrl = async (key: string, remoteUrl: string, fromTFHub = false) => {
+  const cacheUrl = `indexeddb://dx-model-${key}`;
+  const stored = await tf.io.listModels().catch(() => ({} as Record<string, unknown>));
+  if (stored[cacheUrl]) return { url: cacheUrl, cached: true };
+
+  const model = await tf.loadGraphModel(remoteUrl, { fromTFHub });
+  try {
+    await model.save(cacheUrl);
+    return { url: cacheUrl, cached: false };
+  } catch (err) {
+    console.warn(`Could not cache ${key} in IndexedDB:`, err);
+    return { url: remoteUrl, cached: false };
+  } finally {
+    model.dispose();
+  }
+};
+
+const setBackend = async (backend: TfBackend) => {
+  // setBackend resolves false (rather than throwing) when a backend can't initialise
+  for (const candidate of [backend, 'webgl', 'cpu']) {
+    if (await tf.setBackend(candidate).catch(() => false)) break;
+  }
+  await tf.ready();
+  return tf.getBackend();
+};
+
+const loadCocoSsd = async (base: keyof typeof COCO_SSD_URLS) => {
+  const { url, cached } = await cachedModelUrl(`coco-ssd-${base}`, COCO_SSD_URLS[base]);
+  const model = await cocoSsd.load({ base, modelUrl: url });
+  const detector: Detector = {
+    detect: async (input) => mapClasses(await model.detect(input, MAX_BOXES, MIN_SCORE), COCO_CLASS_MAP),
+    dispose: () => model.dispose()
+  };
+  return { detector, cached };
+};
+
+const loadBlazeFace = async () => {
+  const { url, cached } = await cachedModelUrl('blazeface', BLAZEFACE_URL, true);
+  // blazeface only knows the TF Hub flag for its own default URL
+  const model = await blazeface.load({ modelUrl: url === BLAZEFACE_URL ? undefined : url, maxFaces: MAX_BOXES, scoreThreshold: MIN_SCORE });
+  const detector: Detector = {
+    detect: async (input) => {
+      const faces = await model.estimateFaces(input, false);
+      return mapClasses(faces.map(face => {
+        const [x1, y1] = face.topLeft as [number, number];
+        const [x2, y2] = face.bottomRight as [number, number];
+        const probability = face.probability as unknown as number | number[];
+        return {
+          bbox: [x1, y1, x2 - x1, y2 - y1] as [number, number, number, number],
+          class: 'face',
+          score: Array.isArray(probability) ? probability[0] : probability
+        };
+      }), BLAZEFACE_CLASS_MAP);
+    },
+    dispose: () => model.dispose()
+  };
+  return { detector, cached };
+};
+
+/**
+ * Custom graph models are expected to follow the TensorFlow Object Detection
+ * API export: one image input and `detection_boxes` (normalised
+ * [ymin, xmin, ymax, xmax]), `detection_scores` and 1-based
+ * `detection_classes` outputs.
+ */
+const loadCustom = async (labelsText: string, files?: File[]) => {
+  let cached = true;
+  if (files && files.length > 0) {
+    const fresh = await tf.loadGraphModel(tf.io.browserFiles(files));
+    await fresh.save(CUSTOM_CACHE_URL);
+    fresh.dispose();
+    cached = false;
+  }
+  const model = await tf.loadGraphModel(CUSTOM_CACHE_URL).catch(() => {
+    throw new Error('No custom model cached yet; choose its model.json and weight files.');
+  });
+
+  const outputNames = ['detection_boxes', 'detection_scores', 'detection_classes'];
+  const outputs = outputNames.map(name => model.outputs.find(o => o.name.startsWith(name))?.name);
+  if (outputs.some(o => !o)) {
+    model.dispose();
+    throw new Error(`Custom model needs ${outputNames.join(', ')} outputs.`);
+  }
+
+  const [inputInfo] = model.inputs;
+  const [, inputHeight, inputWidth] = inputInfo.shape ?? [];
+  const { labels, classMap } = parseCustomLabels(labelsText);
+
+  const detector: Detector = {
+    detect: async (input) => {
+      const [height, width] = input.shape;
+      const batch = tf.tidy(() => {
+        let image: tf.Tensor3D = input;
+        if (inputHeight > 0 && inputWidth > 0) image = tf.image.resizeBilinear(image, [inputHeight, inputWidth]);
+        const typed = inputInfo.dtype === 'int32' ? image.toInt() : image.toFloat().div(255);
+        return typed.expandDims(0);
+      });
+      const result = await model.executeAsync(batch, outputs as string[]) as tf.Tensor[];
+      batch.dispose();
+      const [boxes, scores, classes] = await Promise.all(result.map(t => t.data()));
+      tf.dispose(result);
+
+      const objects: cocoSsd.DetectedObject[] = [];
+      for (let i = 0; i < scores.length && objects.length < MAX_BOXES; i++) {
+        if (scores[i] < MIN_SCORE) continue;
+        const [ymin, xmin, ymax, xmax] = Array.from(boxes.slice(i * 4, i * 4 + 4));
+        const classIndex = Math.round(classes[i]) - 1;
+        objects.push({
+          bbox: [xmin * width, ymin * height, (xmax - xmin) * width, (ymax - ymin) * height],
+          class: labels[classIndex] ?? `class ${classIndex + 1}`,
+          score: scores[i]
+        });
+      }
+      return mapClasses(objects, classMap);
+    },
+    dispose: () => model.dispose()
+  };
+  return { detector, cached };
+};
+
+export const loadDetector = async (config: DetectorConfig, files?: File[]): Promise<LoadedDetector> => {
+  const backend = await setBackend(config.backend);
+  const loaded = await (() => {
+    switch (config.model) {
+      case 'coco-ssd-lite': return loadCocoSsd('lite_mobilenet_v2');
+      case 'coco-ssd': return loadCocoSsd('mobilenet_v2');
+      case 'blazeface': return loadBlazeFace();
+      case 'custom': return loadCustom(config.customLabels, files);
+    }
+  })();
+  return { ...loaded, backend };
+};
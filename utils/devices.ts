@@ -0,0 +1,10 @@
+// Video inputs attached to this machine. Labels are only filled in once the
+// page has been granted camera permission at least once.
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `Camera ${index + 1}`;
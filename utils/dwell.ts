@@ -0,0 +1,126 @@
+import { Detection, Point, Zone } from '../types';
+import { footPoint } from './geometry';
+import { isInZone } from './zones';
+
+export interface DwellState {
+  seconds: number;
+  limit: number;
+  zoneId?: string;
+  violating: boolean;
+}
+
+export interface DwellViolation {
+  trackId: number;
+  seconds: number;
+  zoneId?: string;
+}
+
+interface TrackDwell {
+  anchor: Point;
+  anchorTime: number;
+  zoneEntry: Record<string, number>;
+  lastSeen: number;
+  longest: number;
+  flagged: Set<string>;
+}
+
+export const DWELL_BUCKETS = [
+  { label: '<10s', max: 10 },
+  { label: '10-30s', max: 30 },
+  { label: '30-60s', max: 60 },
+  { label: '1-2m', max: 120 },
+  { label: '2-5m', max: 300 },
+  { label: '5m+', max: Infinity }
+];
+
+/**
+ * Measures how long each tracked person stays put. The global rule counts time
+ * spent within a small radius of where the person stopped; zone rules count
+ * time spent anywhere inside a zone that has its own dwell limit.
+ */
+export const createDwellMonitor = (forgetAfterMs = 3000) => {
+  let tracks = new Map<number, TrackDwell>();
+  let completed: number[] = [];
+
+  const update = (detections: Detection[], zones: Zone[], globalLimit: number, now: number) => {
+    const states = new Map<number, DwellState>();
+    const violations: DwellViolation[] = [];
+
+    detections.forEach(d => {
+      if (d.trackId === undefined) return;
+      const foot = footPoint(d.bbox);
+      let entry = tracks.get(d.trackId);
+      if (!entry) {
+        entry = { anchor: foot, anchorTime: now, zoneEntry: {}, lastSeen: now, longest: 0, flagged: new Set() };
+        tracks.set(d.trackId, entry);
+      }
+      entry.lastSeen = now;
+
+      // Re-anchor whenever the person walks further than about one body width
+      const radius = Math.max(d.bbox[2] * 0.75, 30);
+      if (Math.hypot(foot.x - entry.anchor.x, foot.y - entry.anchor.y) > radius) {
+        entry.anchor = foot;
+        entry.anchorTime = now;
+      }
+
+      const stationary = (now - entry.anchorTime) / 1000;
+      let state: DwellState = { seconds: stationary, limit: globalLimit, violating: globalLimit > 0 && stationary >= globalLimit };
+
+      zones.forEach(zone => {
+        if (!isInZone(d, zone)) {
+          delete entry!.zoneEntry[zone.id];
+          return;
+        }
+        entry!.zoneEntry[zone.id] ??= now;
+        if (!zone.dwellSeconds) return;
+        const inZone = (now - entry!.zoneEntry[zone.id]) / 1000;
+        const violating = inZone >= zone.dwellSeconds;
+        if (violating && (!state.violating || inZone > state.seconds)) {
+          state = { seconds: inZone, limit: zone.dwellSeconds, zoneId: zone.id, violating };
+        }
+      });
+
+      entry.longest = Math.max(entry.longest, state.seconds);
+      states.set(d.trackId, state);
+
+      // Each rule fires once per person
+      const ruleKey = state.zoneId ?? 'global';
+      if (state.violating && !entry.flagged.has(ruleKey)) {
+        entry.flagged.add(ruleKey);
+        violations.push({ trackId: d.trackId, seconds: state.seconds, zoneId: state.zoneId });
+      }
+    });
+
+    tracks.forEach((entry, id) => {
+      if (now - entry.lastSeen > forgetAfterMs) {
+        completed.push(entry.longest);
+        tracks.delete(id);
+      }
+    });
+
+    return { states, violations };
+  };
+
+  // Longest dwell of every person seen this session, including those still in view
+  const durations = () => [...completed, ...Array.from(tracks.values(), t => t.longest)];
+
+  const reset = () => {
+    tracks = new Map();
+    completed = [];
+  };
+
+  return { update, durations, reset };
+};
+
+export type DwellMonitor = ReturnType<typeof createDwellMonitor>;
+
+export const dwellHistogram = (durations: number[]) =>
+  DWELL_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    count: durations.filter(s => s < bucket.max && (i === 0 || s >= DWELL_BUCKETS[i - 1].max)).length
+  }));
+
+export const formatElapsed = (seconds: number) => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,224 @@
+import { Breach, CountSample, Incident, LogEntry, SessionRecord, SessionTotals } from '../types';
+import { formatTimestamp } from './format';
+import { formatCounts } from './classes';
+import { aggregateSeries } from './aggregation';
+import { durationMs, responseMs } from './incidents';
+
+export const BUNDLE_SCHEMA = 'dx-techies.session-bundle';
+// 2: screenshots carry per-class `counts` instead of a single `count`
+export const BUNDLE_VERSION = 2;
+
+export interface ReportScreenshot {
+  timestamp: string;
+  counts: Record<string, number>;
+  reason?: string;
+  dataUrl: string;
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) => rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+export const seriesToCsv = (session: SessionRecord) => {
+  const zones = session.settings.zones;
+  const classes = (session.settings.classTargets ?? []).map(t => t.class);
+  const header = ['timestamp', 'epoch_ms', 'elapsed_s', 'count', ...zones.map(z => `zone:${z.name}`), ...classes.map(c => `class:${c}`)];
+  const rows = session.series.map(s => [
+    new Date(s.t).toISOString(),
+    s.t,
+    ((s.t - session.startTime) / 1000).toFixed(3),
+    s.count,
+    ...zones.map(z => s.zones?.[z.id] ?? ''),
+    ...classes.map(c => s.classes?.[c] ?? '')
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+export const logsToCsv = (logs: LogEntry[]) =>
+  toCsv([['time', 'type', 'message'], ...logs.map(l => [l.time, l.type, l.message])]);
+
+const isoTime = (epochMs?: number) => (epochMs !== undefined ? new Date(epochMs).toISOString() : null);
+
+// Incidents still unresolved are measured up to `until`: the end of the session, or now while it runs
+const summarizeIncident = (incident: Incident, until = Date.now()) => {
+  const response = responseMs(incident);
+  return {
+    id: incident.id,
+    key: incident.key,
+    title: incident.title,
+    detail: incident.detail,
+    state: incident.state,
+    openedAt: new Date(incident.openedAt).toISOString(),
+    peakCount: incident.peakCount,
+    acknowledgedAt: isoTime(incident.acknowledgedAt),
+    acknowledgedBy: incident.acknowledgedBy ?? null,
+    note: incident.note ?? null,
+    snoozedUntil: isoTime(incident.snoozedUntil),
+    resolvedAt: isoTime(incident.resolvedAt),
+    resolvedBy: incident.resolvedBy ?? null,
+    responseSeconds: response !== null ? Math.round(response / 1000) : null,
+    durationSeconds: Math.round(durationMs(incident, until) / 1000)
+  };
+};
+
+// Oldest first; sessions saved before incidents were tracked have none
+const sessionIncidents = (session: SessionRecord) =>
+  [...(session.incidents ?? [])].reverse().map(i => summarizeIncident(i, session.endTime ?? Date.now()));
+
+// One row per incident, oldest first
+export const incidentsToCsv = (session: SessionRecord) => toCsv([
+  ['opened', 'state', 'title', 'detail', 'peak_count', 'acknowledged', 'acknowledged_by', 'note', 'response_s', 'resolved', 'resolved_by', 'duration_s'],
+  ...sessionIncidents(session).map(i => [
+    i.openedAt, i.state, i.title, i.detail, i.peakCount, i.acknowledgedAt, i.acknowledgedBy, i.note,
+    i.responseSeconds, i.resolvedAt, i.resolvedBy, i.durationSeconds
+  ])
+]);
+
+// Contiguous runs of samples at or above the threshold
+export const thresholdBreaches = (series: CountSample[], threshold: number): Breach[] => {
+  const breaches: Breach[] = [];
+  let current: Breach | null = null;
+  series.forEach(s => {
+    if (s.count >= threshold) {
+      if (!current) {
+        current = { start: s.t, end: s.t, peakCount: s.count };
+        breaches.push(current);
+      }
+      current.end = s.t;
+      current.peakCount = Math.max(current.peakCount, s.count);
+    } else {
+      current = null;
+    }
+  });
+  return breaches;
+};
+
+// Older sessions only have their thinned samples to go on
+const sessionTotals = (session: SessionRecord): SessionTotals =>
+  session.totals ?? aggregateSeries(session.series, session.settings.threshold).totals();
+
+export const summarizeSession = (session: SessionRecord) => {
+  const totals = sessionTotals(session);
+  return {
+    peakCount: session.peakCount,
+    averageCount: Math.round(totals.avgCount * 100) / 100,
+    sampleCount: session.series.length,
+    timeAboveThresholdSeconds: Math.round(totals.timeAboveMs / 1000),
+    hourly: totals.hourly.map(h => ({
+      hour: new Date(h.start).toISOString(),
+      averageCount: Math.round(h.avg * 100) / 100,
+      peakCount: h.max
+    })),
+    breaches: totals.breaches.map(b => ({
+      start: new Date(b.start).toISOString(),
+      end: new Date(b.end).toISOString(),
+      durationSeconds: (b.end - b.start) / 1000,
+      peakCount: b.peakCount
+    })),
+    lineCounts: session.lineCounts
+  };
+};
+
+/**
+ * Builds the versioned JSON bundle described in docs/session-bundle-schema.md.
+ * Bump BUNDLE_VERSION whenever a field changes meaning or is removed.
+ */
+export const buildSessionBundle = (session: SessionRecord, screenshots: ReportScreenshot[] = []) => ({
+  schema: BUNDLE_SCHEMA,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    id: session.id,
+    source: session.source,
+    startTime: new Date(session.startTime).toISOString(),
+    endTime: session.endTime ? new Date(session.endTime).toISOString() : null
+  },
+  settings: session.settings,
+  stats: summarizeSession(session),
+  samples: session.series,
+  logs: session.logs,
+  incidents: sessionIncidents(session),
+  screenshots
+});
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const trendSvg = (session: SessionRecord, width = 720, height = 200) => {
+  const { series, startTime, settings } = session;
+  const last = series[series.length - 1];
+  if (!last) return '<p>No samples recorded.</p>';
+  const span = Math.max(1, last.t - startTime);
+  const max = Math.max(settings.threshold, session.peakCount, 1);
+  const x = (t: number) => ((t - startTime) / span) * width;
+  const y = (count: number) => height - (count / max) * (height - 10);
+  const points = series.map(s => `${x(s.t).toFixed(1)},${y(s.count).toFixed(1)}`).join(' ');
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" xmlns="http://www.w3.org/2000/svg">
+    <rect width="${width}" height="${height}" fill="#fafafa" stroke="#ddd"/>
+    <line x1="0" x2="${width}" y1="${y(settings.threshold)}" y2="${y(settings.threshold)}" stroke="#ef4444" stroke-dasharray="6 4"/>
+    <polyline points="${points}" fill="none" stroke="#059669" stroke-width="1.5"/>
+  </svg>`;
+};
+
+// Self-contained printable HTML; the browser's print dialog turns it into a PDF
+export const buildReportHtml = (session: SessionRecord, screenshots: ReportScreenshot[]) => {
+  const stats = summarizeSession(session);
+  const duration = ((session.endTime ?? session.series[session.series.length - 1]?.t ?? session.startTime) - session.startTime) / 1000;
+  const breachRows = stats.breaches.map(b => `
+    <tr><td>${new Date(b.start).toLocaleTimeString()}</td><td>${new Date(b.end).toLocaleTimeString()}</td>
+    <td>${formatTimestamp(b.durationSeconds)}</td><td>${b.peakCount}</td></tr>`).join('');
+  const incidents = sessionIncidents(session);
+  const incidentRows = incidents.map(i => `
+    <tr><td>${new Date(i.openedAt).toLocaleTimeString()}</td><td>${escapeHtml(i.title)}<br><span class="meta">${escapeHtml(i.detail)}</span></td>
+    <td>${i.state}</td><td>${i.responseSeconds !== null ? formatTimestamp(i.responseSeconds) : '–'}</td><td>${formatTimestamp(i.durationSeconds)}</td>
+    <td>${escapeHtml([i.acknowledgedBy, i.note, i.resolvedBy && `resolved by ${i.resolvedBy}`].filter(Boolean).join(' · '))}</td></tr>`).join('');
+  const shots = screenshots.map(s => `
+    <figure><img src="${s.dataUrl}"/><figcaption>${escapeHtml(s.timestamp)} · ${escapeHtml(formatCounts(s.counts))}${s.reason ? ` · ${escapeHtml(s.reason)}` : ''}</figcaption></figure>`).join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"><title>Crowd Report ${escapeHtml(new Date(session.startTime).toLocaleString())}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; } h2 { font-size: 14px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: .05em; }
+  .meta { color: #666; font-size: 12px; } .kpis { display: flex; gap: 16px; }
+  .kpi { border: 1px solid #ddd; border-radius: 8px; padding: 8px 16px; } .kpi b { display: block; font-size: 22px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; } td, th { border-bottom: 1px solid #eee; padding: 4px 8px; text-align: left; }
+  .shots { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; } figure { margin: 0; break-inside: avoid; }
+  img { width: 100%; border-radius: 6px; } figcaption { font-size: 11px; color: #555; }
+</style></head>
+<body>
+  <h1>DX Techies Crowd Report</h1>
+  <p class="meta">${escapeHtml(session.source)} · ${escapeHtml(new Date(session.startTime).toLocaleString())} · ${formatTimestamp(duration)} · threshold ${session.settings.threshold}</p>
+  <h2>Summary</h2>
+  <div class="kpis">
+    <div class="kpi">Peak<b>${stats.peakCount}</b></div>
+    <div class="kpi">Average<b>${stats.averageCount.toFixed(1)}</b></div>
+    <div class="kpi">Breaches<b>${stats.breaches.length}</b></div>
+    <div class="kpi">Above Threshold<b>${formatTimestamp(stats.timeAboveThresholdSeconds)}</b></div>
+  </div>
+  <h2>Population Trend</h2>
+  ${trendSvg(session)}
+  <h2>Threshold Breaches</h2>
+  ${stats.breaches.length > 0
+    ? `<table><tr><th>Start</th><th>End</th><th>Duration</th><th>Peak</th></tr>${breachRows}</table>`
+    : '<p class="meta">The threshold was not exceeded.</p>'}
+  ${incidents.length > 0 ? `<h2>Incidents</h2>
+  <table><tr><th>Opened</th><th>Alert</th><th>State</th><th>Response</th><th>Duration</th><th>Operator</th></tr>${incidentRows}</table>` : ''}
+  ${stats.hourly.length > 1 ? `<h2>Hourly Occupancy</h2>
+  <table><tr><th>Hour</th><th>Average</th><th>Peak</th></tr>${stats.hourly.map(h => `
+    <tr><td>${new Date(h.hour).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</td><td>${h.averageCount.toFixed(1)}</td><td>${h.peakCount}</td></tr>`).join('')}</table>` : ''}
+  ${shots ? `<h2>Captures</h2><div class="shots">${shots}</div>` : ''}
+</body></html>`;
+};
+
+export const openPrintableReport = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.onload = () => win.print();
+  return true;
+};
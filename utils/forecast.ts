@@ -0,0 +1,83 @@
+import { CountSample } from '../types';
+
+// The forecast works on 30 s averages; finer steps mostly add detection jitter
+const STEP_MS = 30 * 1000;
+// Only the last hour shapes the level and trend
+const LOOKBACK_MS = 60 * 60 * 1000;
+// Fewer steps than this (three minutes) give no usable trend
+const MIN_STEPS = 6;
+// Smoothing of the level and of the trend, and how quickly the trend fades out ahead
+const ALPHA = 0.4;
+const BETA = 0.15;
+const PHI = 0.9;
+// Roughly a 90% band
+const Z = 1.64;
+
+export const FORECAST_HORIZONS = [5, 10, 15];
+
+export interface ForecastPoint {
+  // Epoch milliseconds
+  t: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// Averages samples into fixed steps; steps without samples (a paused feed) are left out
+const resample = (samples: CountSample[], since: number) => {
+  const steps = new Map<number, { sum: number; n: number }>();
+  samples.forEach(s => {
+    if (s.t < since) return;
+    const start = Math.floor(s.t / STEP_MS) * STEP_MS;
+    const step = steps.get(start) ?? { sum: 0, n: 0 };
+    step.sum += s.count;
+    step.n++;
+    steps.set(start, step);
+  });
+  return Array.from(steps.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, step]) => step.sum / step.n);
+};
+
+/**
+ * Projects the whole-frame count `horizonMinutes` ahead with damped-trend
+ * exponential smoothing (Holt). The band widens with the distance ahead,
+ * scaled by how far the one-step-ahead forecasts were off so far. Returns an
+ * empty array until there are a few minutes of history.
+ */
+export const forecastCounts = (samples: CountSample[], now: number, horizonMinutes: number): ForecastPoint[] => {
+  const values = resample(samples, now - LOOKBACK_MS);
+  if (values.length < MIN_STEPS) return [];
+
+  let level = values[0];
+  let trend = 0;
+  let squaredError = 0;
+  values.slice(1).forEach(y => {
+    const predicted = level + PHI * trend;
+    squaredError += (y - predicted) ** 2;
+    const previousLevel = level;
+    level = ALPHA * y + (1 - ALPHA) * predicted;
+    trend = BETA * (level - previousLevel) + (1 - BETA) * PHI * trend;
+  });
+  const sigma = Math.sqrt(squaredError / (values.length - 1));
+
+  const points: ForecastPoint[] = [];
+  let damping = 0;
+  const steps = Math.round((horizonMinutes * 60 * 1000) / STEP_MS);
+  for (let h = 1; h <= steps; h++) {
+    damping += PHI ** h;
+    const value = Math.max(0, level + damping * trend);
+    const spread = Z * sigma * Math.sqrt(h);
+    points.push({
+      t: now + h * STEP_MS,
+      value: Math.round(value * 10) / 10,
+      lower: Math.round(Math.max(0, value - spread) * 10) / 10,
+      upper: Math.round((value + spread) * 10) / 10
+    });
+  }
+  return points;
+};
+
+// When the forecast first reaches the threshold, or null if it stays below it
+export const predictBreach = (forecast: ForecastPoint[], threshold: number) =>
+  forecast.find(p => p.value >= threshold)?.t ?? null;
@@ -0,0 +1,7 @@
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hh = Math.floor(total / 3600);
+  const mm = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const ss = String(total % 60).padStart(2, '0');
+  return hh > 0 ? `${hh}:${mm}:${ss}` : `${mm}:${ss}`;
+};
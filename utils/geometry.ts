@@ -0,0 +1,32 @@
+import { Detection, Point } from '../types';
+
+// Bottom-centre of a bbox: where the person stands on the floor plane
+export const footPoint = (bbox: Detection['bbox']): Point => ({
+  x: bbox[0] + bbox[2] / 2,
+  y: bbox[1] + bbox[3]
+});
+
+// Sign of the cross product: > 0 when p is on the right-hand side of a→b on screen (y grows downwards)
+export const sideOfLine = (a: Point, b: Point, p: Point) =>
+  (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+
+export const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point) => {
+  const d1 = sideOfLine(q1, q2, p1);
+  const d2 = sideOfLine(q1, q2, p2);
+  const d3 = sideOfLine(p1, p2, q1);
+  const d4 = sideOfLine(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+// Even-odd ray casting test
+export const pointInPolygon = (p: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
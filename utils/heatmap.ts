@@ -0,0 +1,174 @@
+import { Detection } from '../types';
+import { footPoint } from './geometry';
+
+// Occupancy is kept on a fine grid, movement on a coarser one so each cell sees enough tracks
+const HEAT_COLS = 64;
+const HEAT_ROWS = 36;
+const FLOW_COLS = 16;
+const FLOW_ROWS = 9;
+const DIRECTIONS = 8;
+// Foot points moving slower than this (px/s) count as standing, not as flow
+const MIN_SPEED = 20;
+// Gaps between updates longer than this (a paused tab, a model swap) are not credited in full
+const MAX_STEP_S = 1;
+
+export interface FlowCell {
+  col: number;
+  row: number;
+  // Dominant direction in radians, screen coordinates (0 = right, π/2 = down)
+  angle: number;
+  // Share of the cell's movement going that way, 0-1
+  agreement: number;
+  // Person-seconds of movement in the cell, relative to the busiest cell, 0-1
+  strength: number;
+}
+
+export interface HeatmapSnapshot {
+  cols: number;
+  rows: number;
+  // Person-seconds spent in each cell, row-major
+  occupancy: Float32Array;
+  maxOccupancy: number;
+  flowCols: number;
+  flowRows: number;
+  flow: FlowCell[];
+}
+
+const cellIndex = (x: number, y: number, width: number, height: number, cols: number, rows: number) => {
+  const col = Math.min(cols - 1, Math.max(0, Math.floor((x / width) * cols)));
+  const row = Math.min(rows - 1, Math.max(0, Math.floor((y / height) * rows)));
+  return row * cols + col;
+};
+
+/**
+ * Accumulates where tracked people stand and which way they walk over a
+ * session. Positions are bbox foot points, weighted by the time between
+ * updates so the result is in person-seconds regardless of detection rate.
+ */
+export const createHeatmap = () => {
+  const occupancy = new Float32Array(HEAT_COLS * HEAT_ROWS);
+  // Per flow cell, time-weighted movement binned by compass direction
+  const directions = new Float32Array(FLOW_COLS * FLOW_ROWS * DIRECTIONS);
+  let lastUpdate: number | null = null;
+
+  const update = (people: Detection[], frameWidth: number, frameHeight: number, now: number) => {
+    const dt = lastUpdate === null ? 0 : Math.min((now - lastUpdate) / 1000, MAX_STEP_S);
+    lastUpdate = now;
+    if (dt === 0 || frameWidth === 0 || frameHeight === 0) return;
+
+    people.forEach(person => {
+      const foot = footPoint(person.bbox);
+      occupancy[cellIndex(foot.x, foot.y, frameWidth, frameHeight, HEAT_COLS, HEAT_ROWS)] += dt;
+
+      const [vx, vy] = person.velocity ?? [0, 0];
+      if (Math.hypot(vx, vy) < MIN_SPEED) return;
+      const bin = Math.round(((Math.atan2(vy, vx) + 2 * Math.PI) % (2 * Math.PI)) / (2 * Math.PI / DIRECTIONS)) % DIRECTIONS;
+      directions[cellIndex(foot.x, foot.y, frameWidth, frameHeight, FLOW_COLS, FLOW_ROWS) * DIRECTIONS + bin] += dt;
+    });
+  };
+
+  const snapshot = (): HeatmapSnapshot => {
+    const cells: Omit<FlowCell, 'strength'>[] = [];
+    const totals: number[] = [];
+    for (let cell = 0; cell < FLOW_COLS * FLOW_ROWS; cell++) {
+      const bins = directions.subarray(cell * DIRECTIONS, (cell + 1) * DIRECTIONS);
+      let total = 0;
+      let best = 0;
+      bins.forEach((v, i) => {
+        total += v;
+        if (v > bins[best]) best = i;
+      });
+      if (total === 0) continue;
+      cells.push({
+        col: cell % FLOW_COLS,
+        row: Math.floor(cell / FLOW_COLS),
+        angle: best * (2 * Math.PI / DIRECTIONS),
+        agreement: bins[best] / total
+      });
+      totals.push(total);
+    }
+    const maxTotal = Math.max(0, ...totals);
+    return {
+      cols: HEAT_COLS,
+      rows: HEAT_ROWS,
+      occupancy: occupancy.slice(),
+      maxOccupancy: occupancy.reduce((max, v) => Math.max(max, v), 0),
+      flowCols: FLOW_COLS,
+      flowRows: FLOW_ROWS,
+      flow: cells.map((c, i) => ({ ...c, strength: maxTotal > 0 ? totals[i] / maxTotal : 0 }))
+    };
+  };
+
+  const reset = () => {
+    occupancy.fill(0);
+    directions.fill(0);
+    lastUpdate = null;
+  };
+
+  return { update, snapshot, reset };
+};
+
+export type Heatmap = ReturnType<typeof createHeatmap>;
+
+// Transparent blue for little time through green and yellow to opaque red for the hot spots
+const heatColor = (t: number): [number, number, number, number] => {
+  const stops: [number, number, number][] = [[59, 130, 246], [16, 185, 129], [234, 179, 8], [239, 68, 68]];
+  const scaled = t * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f, 60 + 160 * t];
+};
+
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, snapshot: HeatmapSnapshot, width: number, height: number) => {
+  if (snapshot.maxOccupancy === 0) return;
+  const grid = document.createElement('canvas');
+  grid.width = snapshot.cols;
+  grid.height = snapshot.rows;
+  const gridCtx = grid.getContext('2d');
+  if (!gridCtx) return;
+  const image = gridCtx.createImageData(snapshot.cols, snapshot.rows);
+  snapshot.occupancy.forEach((v, i) => {
+    if (v === 0) return;
+    // Square root keeps short visits visible next to a spot someone stood in all session
+    const [r, g, b, a] = heatColor(Math.sqrt(v / snapshot.maxOccupancy));
+    image.data.set([r, g, b, a], i * 4);
+  });
+  gridCtx.putImageData(image, 0, 0);
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(grid, 0, 0, width, height);
+  ctx.restore();
+};
+
+export const drawFlow = (ctx: CanvasRenderingContext2D, snapshot: HeatmapSnapshot, width: number, height: number) => {
+  const cellW = width / snapshot.flowCols;
+  const cellH = height / snapshot.flowRows;
+  const reach = Math.min(cellW, cellH) * 0.45;
+  ctx.save();
+  ctx.lineCap = 'round';
+  snapshot.flow.forEach(cell => {
+    const cx = (cell.col + 0.5) * cellW;
+    const cy = (cell.row + 0.5) * cellH;
+    const length = reach * (0.4 + 0.6 * cell.strength);
+    const dx = Math.cos(cell.angle) * length;
+    const dy = Math.sin(cell.angle) * length;
+    // Weak agreement means people cross in many directions: a likely bottleneck, drawn in red
+    ctx.strokeStyle = cell.agreement < 0.5 ? `rgba(239, 68, 68, ${0.4 + 0.6 * cell.strength})` : `rgba(255, 255, 255, ${0.4 + 0.6 * cell.strength})`;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = 2 + 4 * cell.strength;
+    ctx.beginPath();
+    ctx.moveTo(cx - dx, cy - dy);
+    ctx.lineTo(cx + dx, cy + dy);
+    ctx.stroke();
+    const head = ctx.lineWidth * 2.5;
+    ctx.beginPath();
+    ctx.moveTo(cx + dx, cy + dy);
+    ctx.lineTo(cx + dx - head * Math.cos(cell.angle - 0.5), cy + dy - head * Math.sin(cell.angle - 0.5));
+    ctx.lineTo(cx + dx - head * Math.cos(cell.angle + 0.5), cy + dy - head * Math.sin(cell.angle + 0.5));
+    ctx.closePath();
+    ctx.fill();
+  });
+  ctx.restore();
+};
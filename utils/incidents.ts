@@ -0,0 +1,136 @@
+import { Incident } from '../types';
+
+const OPERATOR_KEY = 'dx-operator';
+
+export const SNOOZE_MINUTES = [5, 15, 30, 60];
+
+// Something alerting right now, as shown in the alert banner
+export interface ActiveAlert {
+  key: string;
+  title: string;
+  detail: string;
+  count: number;
+}
+
+export type IncidentEvent =
+  | { kind: 'opened'; incident: Incident }
+  // The alert cleared on its own
+  | { kind: 'cleared'; incident: Incident }
+  | { kind: 'snooze-ended'; incident: Incident };
+
+export const loadOperatorName = () => localStorage.getItem(OPERATOR_KEY) ?? '';
+
+export const saveOperatorName = (name: string) => {
+  localStorage.setItem(OPERATOR_KEY, name);
+};
+
+// Milliseconds from opening to acknowledgement, or null if nobody acknowledged it
+export const responseMs = (incident: Incident) =>
+  incident.acknowledgedAt !== undefined ? incident.acknowledgedAt - incident.openedAt : null;
+
+export const durationMs = (incident: Incident, now = Date.now()) => (incident.resolvedAt ?? now) - incident.openedAt;
+
+/**
+ * Turns alerts into incident records. `update` is given everything alerting
+ * at the moment; an alert without an unresolved incident opens one, and an
+ * incident whose alert is gone resolves itself. Operators acknowledge, snooze
+ * or resolve incidents in between, which is what silences their siren.
+ */
+export const createIncidentLog = () => {
+  // Newest first
+  let incidents: Incident[] = [];
+  // Alerts resolved by hand while still going; they don't open a new incident until they clear
+  let held = new Set<string>();
+
+  const modify = (id: string, change: (incident: Incident) => Incident) => {
+    incidents = incidents.map(i => (i.id === id ? change(i) : i));
+    return incidents.find(i => i.id === id);
+  };
+
+  const update = (alerts: ActiveAlert[], now: number) => {
+    const events: IncidentEvent[] = [];
+    const byKey = new Map(alerts.map(a => [a.key, a]));
+    let changed = false;
+    held = new Set([...held].filter(key => byKey.has(key)));
+
+    incidents = incidents.map(incident => {
+      if (incident.state === 'resolved') return incident;
+      const alert = byKey.get(incident.key);
+      let next = incident;
+      if (!alert) {
+        next = { ...incident, state: 'resolved', resolvedAt: now, snoozedUntil: undefined };
+        events.push({ kind: 'cleared', incident: next });
+      } else {
+        if (alert.count > incident.peakCount) next = { ...next, peakCount: alert.count };
+        if (next.state === 'snoozed' && next.snoozedUntil! <= now) {
+          next = { ...next, state: 'open', snoozedUntil: undefined };
+          events.push({ kind: 'snooze-ended', incident: next });
+        }
+      }
+      if (next !== incident) changed = true;
+      return next;
+    });
+
+    const unresolved = new Set(incidents.filter(i => i.state !== 'resolved').map(i => i.key));
+    alerts.filter(a => !unresolved.has(a.key) && !held.has(a.key)).forEach(alert => {
+      const incident: Incident = {
+        id: Math.random().toString(36).substr(2, 9),
+        key: alert.key,
+        title: alert.title,
+        detail: alert.detail,
+        state: 'open',
+        openedAt: now,
+        peakCount: alert.count
+      };
+      incidents = [incident, ...incidents];
+      events.push({ kind: 'opened', incident });
+      changed = true;
+    });
+    return { events, changed };
+  };
+
+  const acknowledge = (id: string, operator: string, note: string, now: number) =>
+    modify(id, i => (i.state === 'resolved' ? i : {
+      ...i,
+      state: 'acknowledged',
+      acknowledgedAt: i.acknowledgedAt ?? now,
+      acknowledgedBy: operator,
+      note: note.trim() || undefined,
+      snoozedUntil: undefined
+    }));
+
+  const snooze = (id: string, minutes: number, now: number) =>
+    modify(id, i => (i.state === 'open' ? { ...i, state: 'snoozed', snoozedUntil: now + minutes * 60 * 1000 } : i));
+
+  const resolve = (id: string, operator: string, now: number) => {
+    const incident = incidents.find(i => i.id === id);
+    if (!incident || incident.state === 'resolved') return incident;
+    held.add(incident.key);
+    return modify(id, i => ({ ...i, state: 'resolved', resolvedAt: now, resolvedBy: operator, snoozedUntil: undefined }));
+  };
+
+  // An acknowledged, snoozed or hand-resolved alert keeps quiet
+  const isSilenced = (key: string, now: number) =>
+    held.has(key) || incidents.some(i => i.key === key && (
+      i.state === 'acknowledged' || (i.state === 'snoozed' && i.snoozedUntil! > now)
+    ));
+
+  const reset = () => {
+    incidents = [];
+    held = new Set();
+  };
+
+  return {
+    update,
+    acknowledge,
+    snooze,
+    resolve,
+    isSilenced,
+    // Resolved by hand while the alert is still going, so it has no banner
+    isHeld: (key: string) => held.has(key),
+    list: () => incidents,
+    reset
+  };
+};
+
+export type IncidentLog = ReturnType<typeof createIncidentLog>;
@@ -0,0 +1,41 @@
+// Index of the two-byte JPEG marker 0xFF `marker` at or after `from`, or -1
+const findMarker = (bytes: Uint8Array, marker: number, from: number) => {
+  for (let i = from; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === marker) return i;
+  }
+  return -1;
+};
+
+/**
+ * Cuts a byte stream of back-to-back JPEGs (an MJPEG response, ffmpeg's
+ * image2pipe output) into single images at the start/end-of-image markers,
+ * without relying on part headers, since cameras are inconsistent about
+ * Content-Length.
+ */
+export const createJpegSplitter = () => {
+  let buffer = new Uint8Array(0);
+
+  // Returns the images completed by this chunk, oldest first
+  const push = (chunk: Uint8Array): Uint8Array[] => {
+    const joined = new Uint8Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    const images: Uint8Array[] = [];
+    let start = findMarker(buffer, 0xd8, 0);
+    while (start !== -1) {
+      const end = findMarker(buffer, 0xd9, start + 2);
+      if (end === -1) break;
+      images.push(buffer.slice(start, end + 2));
+      buffer = buffer.slice(end + 2);
+      start = findMarker(buffer, 0xd8, 0);
+    }
+    // Nothing useful before the next start-of-image; keep one byte in case a marker is split
+    if (start === -1) buffer = buffer.slice(-1);
+    else if (start > 0) buffer = buffer.slice(start);
+    return images;
+  };
+
+  return { push };
+};
@@ -0,0 +1,52 @@
+import { Detection, Point, Tripwire } from '../types';
+import { footPoint, segmentsIntersect, sideOfLine } from './geometry';
+import { DEFAULT_MAX_COAST_MS } from './tracker';
+
+export interface LineCrossing {
+  lineId: string;
+  trackId: number;
+  direction: 'in' | 'out';
+}
+
+/**
+ * Counts tracked people crossing tripwires. Each track's foot point from the
+ * previous cycle is compared with the current one; a crossing is recorded when
+ * the step between them intersects the tripwire segment.
+ */
+export const createLineCounter = (forgetAfterMs = DEFAULT_MAX_COAST_MS) => {
+  // Last known foot point per track; kept as long as the tracker coasts the
+  // track, so a crossing that happens while the person is hidden still counts
+  let lastPositions = new Map<number, { point: Point; seen: number }>();
+
+  const update = (detections: Detection[], tripwires: Tripwire[], now: number): LineCrossing[] => {
+    const crossings: LineCrossing[] = [];
+
+    detections.forEach(d => {
+      if (d.trackId === undefined) return;
+      const current = footPoint(d.bbox);
+      const previous = lastPositions.get(d.trackId)?.point;
+      lastPositions.set(d.trackId, { point: current, seen: now });
+      if (!previous) return;
+
+      tripwires.forEach(line => {
+        if (!segmentsIntersect(previous, current, line.start, line.end)) return;
+        const toRight = sideOfLine(line.start, line.end, current) > 0;
+        const entering = toRight === (line.inDirection === 'left-to-right');
+        crossings.push({ lineId: line.id, trackId: d.trackId!, direction: entering ? 'in' : 'out' });
+      });
+    });
+
+    lastPositions.forEach((entry, id) => {
+      if (now - entry.seen > forgetAfterMs) lastPositions.delete(id);
+    });
+    return crossings;
+  };
+
+  const reset = () => {
+    lastPositions = new Map();
+  };
+
+  return { update, reset };
+};
+
+export type LineCounter = ReturnType<typeof createLineCounter>;
@@ -0,0 +1,166 @@
+import { LiveStatus, LocalApiSettings, LogEntry } from '../types';
+import { streamLabel } from './streams';
+
+const STORAGE_KEY = 'dx-local-api';
+
+export const DEFAULT_LOCAL_API: LocalApiSettings = {
+  enabled: false,
+  url: 'http://localhost:8789'
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// An unchanged status is still sent this often, so the server's history has a sample a second
+const HEARTBEAT_MS = 1000;
+// Log entries held while the server is unreachable and sent once it is back
+const MAX_QUEUED_LOGS = 50;
+
+const EMPTY_STATUS: LiveStatus = {
+  monitoring: false,
+  source: null,
+  count: 0,
+  peak: 0,
+  threshold: 0,
+  confidence: 0,
+  alerting: false,
+  alerts: [],
+  zones: {},
+  classes: {}
+};
+
+export const loadLocalApiSettings = (): LocalApiSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LOCAL_API, ...JSON.parse(stored) } : DEFAULT_LOCAL_API;
+  } catch {
+    return DEFAULT_LOCAL_API;
+  }
+};
+
+export const saveLocalApiSettings = (settings: LocalApiSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export type LocalApiStatus = 'connecting' | 'connected' | 'offline';
+
+// A threshold or confidence change made through PUT /api/settings, already validated by the server
+export interface RemoteSettingsChange {
+  threshold?: number;
+  confidence?: number;
+}
+
+/**
+ * Pushes live counts and log entries to scripts/api-server.mjs, and receives
+ * threshold and confidence changes made through its API. The connection is
+ * retried with exponential backoff for as long as it is wanted; `onStatus`
+ * only hears about transitions, not every failed retry.
+ */
+export const createLocalApiLink = (
+  onSettings: (change: RemoteSettingsChange) => void,
+  onStatus: (status: LocalApiStatus, detail: string) => void
+) => {
+  let socket: WebSocket | null = null;
+  let url = '';
+  let active = false;
+  let connected = false;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let status = EMPTY_STATUS;
+  let lastSent = '';
+  let lastSentAt = 0;
+  const queuedLogs: LogEntry[] = [];
+
+  const send = (message: object) => {
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const sendStatus = () => {
+    if (send({ type: 'count', t: Date.now(), ...status })) lastSentAt = Date.now();
+  };
+
+  const open = () => {
+    let current: WebSocket;
+    try {
+      current = new WebSocket(`${url.replace(/\/$/, '').replace(/^http/, 'ws')}/api/app`);
+    } catch {
+      // Retrying a malformed address won't help
+      onStatus('offline', `${url || 'empty address'} is not a valid http:// or ws:// address`);
+      return;
+    }
+    socket = current;
+    current.onopen = () => {
+      attempt = 0;
+      connected = true;
+      onStatus('connected', streamLabel(url));
+      sendStatus();
+      queuedLogs.splice(0).forEach(entry => send({ type: 'log', entry }));
+    };
+    current.onmessage = (e) => {
+      try {
+        const message = JSON.parse(e.data);
+        if (message.type === 'settings') onSettings({ threshold: message.threshold, confidence: message.confidence });
+      } catch {
+        // Not JSON; nothing the app understands
+      }
+    };
+    // Also follows every error, so retries are scheduled in one place
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      attempt++;
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** (attempt - 1), RECONNECT_MAX_MS);
+      if (connected || attempt === 1) {
+        onStatus('offline', `${streamLabel(url)} unreachable; retrying in the background`);
+      }
+      connected = false;
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  const disconnect = () => {
+    active = false;
+    connected = false;
+    if (retryTimer) clearTimeout(retryTimer);
+    if (heartbeat) clearInterval(heartbeat);
+    retryTimer = null;
+    heartbeat = null;
+    const current = socket;
+    socket = null;
+    current?.close();
+    queuedLogs.length = 0;
+  };
+
+  const connect = (address: string) => {
+    disconnect();
+    url = address.trim();
+    active = true;
+    attempt = 0;
+    onStatus('connecting', streamLabel(url));
+    open();
+    heartbeat = setInterval(() => {
+      if (Date.now() - lastSentAt >= HEARTBEAT_MS) sendStatus();
+    }, HEARTBEAT_MS);
+  };
+
+  // Merged into the current status, which is sent straight away if anything changed
+  const update = (change: Partial<LiveStatus>) => {
+    status = { ...status, ...change };
+    const serialized = JSON.stringify(status);
+    if (serialized === lastSent) return;
+    lastSent = serialized;
+    sendStatus();
+  };
+
+  const log = (entry: LogEntry) => {
+    if (!active || send({ type: 'log', entry })) return;
+    queuedLogs.push(entry);
+    if (queuedLogs.length > MAX_QUEUED_LOGS) queuedLogs.shift();
+  };
+
+  return { connect, disconnect, update, log };
+};
+
+export type LocalApiLink = ReturnType<typeof createLocalApiLink>;
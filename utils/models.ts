@@ -0,0 +1,65 @@
+import { DetectorConfig, ModelKind, TfBackend } from '../types';
+
+// Model metadata shared by the UI and the detection worker. Kept free of tfjs
+// imports so the UI thread doesn't pull the runtime in.
+
+const STORAGE_KEY = 'dx-detector-config';
+
+// Lowest score the confidence slider can select; the app filters the rest
+export const MIN_SCORE = 0.1;
+export const MAX_BOXES = 50;
+
+export const MODEL_OPTIONS: { id: ModelKind; label: string; description: string }[] = [
+  { id: 'coco-ssd-lite', label: 'COCO-SSD Lite', description: 'SSD lite_mobilenet_v2, fastest' },
+  { id: 'coco-ssd', label: 'COCO-SSD', description: 'SSD mobilenet_v2, more accurate' },
+  { id: 'blazeface', label: 'BlazeFace', description: 'Faces only, for close-range cameras' },
+  { id: 'custom', label: 'Custom', description: 'TF.js graph model from local files' }
+];
+
+export const BACKEND_OPTIONS: { id: TfBackend; label: string }[] = [
+  { id: 'webgl', label: 'WebGL' },
+  { id: 'wasm', label: 'WASM' },
+  { id: 'cpu', label: 'CPU' }
+];
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  model: 'coco-ssd-lite',
+  backend: 'webgl',
+  customLabels: ''
+};
+
+export const loadDetectorConfig = (): DetectorConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_DETECTOR_CONFIG, ...JSON.parse(stored) } : DEFAULT_DETECTOR_CONFIG;
+  } catch {
+    return DEFAULT_DETECTOR_CONFIG;
+  }
+};
+
+export const saveDetectorConfig = (config: DetectorConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export const modelLabel = (config: DetectorConfig) =>
+  config.model === 'custom' && config.customName
+    ? config.customName
+    : MODEL_OPTIONS.find(m => m.id === config.model)?.label ?? config.model;
+
+export interface CustomLabels {
+  // Raw model label by class index (0-based)
+  labels: string[];
+  // Raw model label -> app class, e.g. { pedestrian: 'person' }
+  classMap: Record<string, string>;
+}
+
+export const parseCustomLabels = (text: string): CustomLabels => {
+  const labels: string[] = [];
+  const classMap: Record<string, string> = {};
+  text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const [label, mapped] = line.split('=').map(part => part.trim());
+    labels.push(label);
+    if (mapped) classMap[label] = mapped;
+  });
+  return { labels, classMap };
+};
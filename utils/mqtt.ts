@@ -0,0 +1,110 @@
+// Minimal MQTT 3.1.1 publisher over WebSockets (QoS 0 only). Enough to push
+// counts and alerts to a broker without pulling a full client library into the app.
+
+const encoder = new TextEncoder();
+
+export interface MqttOptions {
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAliveSeconds?: number;
+}
+
+export interface MqttConnection {
+  publish: (topic: string, payload: string, retain?: boolean) => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+const encodeLength = (length: number) => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+};
+
+const encodeString = (value: string) => {
+  const data = encoder.encode(value);
+  return [data.length >> 8, data.length & 0xff, ...data];
+};
+
+const packet = (header: number, body: number[]) =>
+  new Uint8Array([header, ...encodeLength(body.length), ...body]);
+
+const connectPacket = ({ clientId, username, password, keepAliveSeconds = 30 }: MqttOptions) => {
+  let flags = 0x02; // clean session
+  if (username) flags |= 0x80;
+  if (password) flags |= 0x40;
+  const body = [
+    ...encodeString('MQTT'), 0x04, flags, keepAliveSeconds >> 8, keepAliveSeconds & 0xff,
+    ...encodeString(clientId),
+    ...(username ? encodeString(username) : []),
+    ...(password ? encodeString(password) : [])
+  ];
+  return packet(0x10, body);
+};
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized'
+};
+
+export const connectMqtt = (url: string, options: MqttOptions, timeoutMs = 10000) =>
+  new Promise<MqttConnection>((resolve, reject) => {
+    const socket = new WebSocket(url, 'mqtt');
+    socket.binaryType = 'arraybuffer';
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let settled = false;
+
+    const fail = (reason: string) => {
+      if (settled) return;
+      settled = true;
+      socket.close();
+      reject(new Error(reason));
+    };
+    const timeout = setTimeout(() => fail('MQTT connect timed out'), timeoutMs);
+
+    const connection: MqttConnection = {
+      publish: (topic, payload, retain = false) => {
+        if (socket.readyState !== WebSocket.OPEN) throw new Error('MQTT connection is closed');
+        socket.send(packet(0x30 | (retain ? 0x01 : 0), [...encodeString(topic), ...encoder.encode(payload)]));
+      },
+      close: () => {
+        if (pingTimer) clearInterval(pingTimer);
+        if (socket.readyState === WebSocket.OPEN) socket.send(new Uint8Array([0xe0, 0x00]));
+        socket.close();
+      },
+      isOpen: () => socket.readyState === WebSocket.OPEN
+    };
+
+    socket.onopen = () => socket.send(connectPacket(options));
+    socket.onerror = () => fail('MQTT WebSocket error');
+    socket.onclose = () => {
+      if (pingTimer) clearInterval(pingTimer);
+      fail('MQTT connection closed');
+    };
+    socket.onmessage = (e) => {
+      const data = new Uint8Array(e.data as ArrayBuffer);
+      // Only CONNACK matters to a QoS 0 publisher; PINGRESP needs no handling
+      if (settled || data[0] !== 0x20) return;
+      clearTimeout(timeout);
+      const code = data[3];
+      if (code !== 0) {
+        fail(`MQTT connection refused: ${CONNACK_ERRORS[code] ?? `code ${code}`}`);
+        return;
+      }
+      settled = true;
+      const keepAlive = (options.keepAliveSeconds ?? 30) * 1000;
+      pingTimer = setInterval(() => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(new Uint8Array([0xc0, 0x00]));
+      }, keepAlive * 0.8);
+      resolve(connection);
+    };
+  });
@@ -0,0 +1,172 @@
+import { AlertNotification, DeliveryRecord, NotificationChannel } from '../types';
+import { connectMqtt, MqttConnection } from './mqtt';
+import { blobToDataUrl } from './sessions';
+
+const STORAGE_KEY = 'dx-notification-channels';
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export const loadChannels = (): NotificationChannel[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveChannels = (channels: NotificationChannel[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(channels));
+};
+
+export const newChannel = (kind: NotificationChannel['kind'], index: number): NotificationChannel => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: kind === 'webhook' ? `Webhook ${index}` : `MQTT ${index}`,
+  kind,
+  enabled: true,
+  url: kind === 'webhook' ? 'http://localhost:8787/webhook' : 'ws://localhost:8787/mqtt',
+  snapshot: 'base64',
+  topicPrefix: 'dx-techies',
+  publishCounts: true
+});
+
+export const needsSnapshot = (channels: NotificationChannel[]) =>
+  channels.some(c => c.enabled && c.kind === 'webhook' && c.snapshot !== 'none');
+
+// Exponential backoff with ±20% jitter so several channels don't retry in lockstep
+export const backoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Sends alert notifications to the configured webhook and MQTT channels.
+ * Each delivery is retried with backoff and reported through `onDelivery`,
+ * which receives the same record id again as its status changes.
+ */
+export const createNotifier = (onDelivery: (record: DeliveryRecord) => void) => {
+  const brokers = new Map<string, { key: string; connection: Promise<MqttConnection> }>();
+  // Count publishing does not retry; a failed broker is left alone until this time
+  const countRetryAt = new Map<string, number>();
+
+  const brokerFor = (channel: NotificationChannel) => {
+    const key = `${channel.url}|${channel.username ?? ''}|${channel.password ?? ''}`;
+    const existing = brokers.get(channel.id);
+    if (existing && existing.key === key) return existing.connection;
+    existing?.connection.then(c => c.close(), () => undefined);
+
+    const connection = connectMqtt(channel.url, {
+      clientId: `dx-techies-${Math.random().toString(36).substr(2, 8)}`,
+      username: channel.username || undefined,
+      password: channel.password || undefined
+    });
+    brokers.set(channel.id, { key, connection });
+    connection.catch(() => {
+      if (brokers.get(channel.id)?.connection === connection) brokers.delete(channel.id);
+    });
+    return connection;
+  };
+
+  const publish = async (channel: NotificationChannel, topic: string, payload: unknown, retain = false) => {
+    let connection = await brokerFor(channel);
+    if (!connection.isOpen()) {
+      brokers.delete(channel.id);
+      connection = await brokerFor(channel);
+    }
+    connection.publish(`${channel.topicPrefix}/${topic}`, JSON.stringify(payload), retain);
+  };
+
+  const postWebhook = async (channel: NotificationChannel, alert: AlertNotification, snapshot: Blob | null) => {
+    let init: RequestInit;
+    if (channel.snapshot === 'multipart' && snapshot) {
+      const form = new FormData();
+      form.append('payload', JSON.stringify(alert));
+      form.append('snapshot', snapshot, 'snapshot.jpg');
+      init = { method: 'POST', body: form };
+    } else {
+      const body = channel.snapshot === 'base64' && snapshot
+        ? { ...alert, snapshot: { contentType: snapshot.type, base64: (await blobToDataUrl(snapshot)).split(',')[1] } }
+        : alert;
+      init = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+    }
+    const response = await fetch(channel.url, init);
+    if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  };
+
+  const deliver = async (channel: NotificationChannel, alert: AlertNotification, snapshot: Blob | null) => {
+    const record: DeliveryRecord = {
+      id: Math.random().toString(36).substr(2, 9),
+      channelId: channel.id,
+      channelName: channel.name,
+      event: alert.event,
+      status: 'pending',
+      attempts: 0,
+      time: new Date().toLocaleTimeString()
+    };
+    onDelivery(record);
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        if (channel.kind === 'webhook') await postWebhook(channel, alert, snapshot);
+        else await publish(channel, 'alert', alert);
+        onDelivery({ ...record, status: 'delivered', attempts: attempt, time: new Date().toLocaleTimeString(), detail: undefined });
+        return true;
+      } catch (err) {
+        if (attempt === MAX_ATTEMPTS) {
+          onDelivery({ ...record, status: 'failed', attempts: attempt, time: new Date().toLocaleTimeString(), detail: errorMessage(err) });
+          return false;
+        }
+        const delay = backoffDelay(attempt);
+        onDelivery({
+          ...record,
+          status: 'retrying',
+          attempts: attempt,
+          time: new Date().toLocaleTimeString(),
+          detail: `${errorMessage(err)}; retrying in ${(delay / 1000).toFixed(1)}s`
+        });
+        await sleep(delay);
+      }
+    }
+    return false;
+  };
+
+  const notify = (channels: NotificationChannel[], alert: AlertNotification, snapshot: Blob | null = null) =>
+    Promise.all(channels.filter(c => c.enabled && c.url).map(c => deliver(c, alert, snapshot)));
+
+  // Latest count as a retained message, so a subscriber that connects later sees it at once
+  const publishCount = (channels: NotificationChannel[], count: number, zones: Record<string, number>) => {
+    const now = Date.now();
+    channels
+      .filter(c => c.enabled && c.kind === 'mqtt' && c.publishCounts && c.url)
+      .filter(c => (countRetryAt.get(c.id) ?? 0) <= now)
+      .forEach(channel => {
+        publish(channel, 'count', { count, zones, timestamp: new Date(now).toISOString() }, true).catch(err => {
+          countRetryAt.set(channel.id, Date.now() + MAX_DELAY_MS);
+          onDelivery({
+            id: Math.random().toString(36).substr(2, 9),
+            channelId: channel.id,
+            channelName: channel.name,
+            event: 'count',
+            status: 'failed',
+            attempts: 1,
+            time: new Date().toLocaleTimeString(),
+            detail: `${errorMessage(err)}; paused for ${MAX_DELAY_MS / 1000}s`
+          });
+        });
+      });
+  };
+
+  const dispose = () => {
+    brokers.forEach(({ connection }) => connection.then(c => c.close(), () => undefined));
+    brokers.clear();
+    countRetryAt.clear();
+  };
+
+  return { notify, publishCount, dispose };
+};
+
+export type Notifier = ReturnType<typeof createNotifier>;
@@ -0,0 +1,146 @@
+import { Detection, PrivacySettings } from '../types';
+import type { Rect } from './tiling';
+
+const STORAGE_KEY = 'dx-privacy';
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  enabled: false,
+  style: 'pixelate',
+  region: 'body'
+};
+
+// Without a fresh detection for this long the whole frame is masked; a stalled
+// model must never leave people exposed
+const STALE_MS = 1500;
+// Boxes are moved along the track velocity for at most this long
+const MAX_EXTRAPOLATION_S = 0.5;
+// Extra margin around each box, as a share of its size, to cover detection jitter
+const PADDING = 0.15;
+// Pixel blocks across the shorter side of a masked region
+const PIXEL_BLOCKS = 8;
+const BLUR_PX = 16;
+
+export const loadPrivacySettings = (): PrivacySettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PRIVACY, ...JSON.parse(stored) } : DEFAULT_PRIVACY;
+  } catch {
+    return DEFAULT_PRIVACY;
+  }
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// SHA-256 hex; only the hash of the admin PIN is kept
+export const hashPin = async (pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pin));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (pin: string, settings: PrivacySettings) =>
+  !!settings.pinHash && (await hashPin(pin)) === settings.pinHash;
+
+// The head sits in the top of a person box, narrower than the shoulders
+const headRect = ([x, y, w, h]: Detection['bbox']): Rect => {
+  const width = w * 0.6;
+  const height = Math.min(h * 0.25, w * 0.8);
+  return { x: x + (w - width) / 2, y, width, height };
+};
+
+const maskRect = (detection: Detection, region: PrivacySettings['region'], elapsedS: number): Rect => {
+  const [vx, vy] = detection.velocity ?? [0, 0];
+  const dt = Math.min(elapsedS, MAX_EXTRAPOLATION_S);
+  const [x, y, w, h] = detection.bbox;
+  const moved: Detection['bbox'] = [x + vx * dt, y + vy * dt, w, h];
+  const base = region === 'head' ? headRect(moved) : { x: moved[0], y: moved[1], width: w, height: h };
+  const padX = base.width * PADDING;
+  const padY = base.height * PADDING;
+  return { x: base.x - padX, y: base.y - padY, width: base.width + padX * 2, height: base.height + padY * 2 };
+};
+
+/**
+ * Draws video frames with every detected person masked. Detections arrive a few
+ * times a second while frames are drawn at display rate, so boxes are moved along
+ * their tracked velocity in between.
+ */
+export const createPrivacyMask = () => {
+  let detections: Detection[] = [];
+  let updatedAt = 0;
+  const scratch = document.createElement('canvas');
+  const scratchCtx = scratch.getContext('2d');
+
+  const update = (people: Detection[]) => {
+    detections = people;
+    updatedAt = performance.now();
+  };
+
+  const pixelate = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, r: Rect) => {
+    if (!scratchCtx) return;
+    const scale = PIXEL_BLOCKS / Math.max(1, Math.min(r.width, r.height));
+    scratch.width = Math.max(1, Math.round(r.width * scale));
+    scratch.height = Math.max(1, Math.round(r.height * scale));
+    scratchCtx.drawImage(source, r.x, r.y, r.width, r.height, 0, 0, scratch.width, scratch.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, r.x, r.y, r.width, r.height);
+    ctx.imageSmoothingEnabled = true;
+  };
+
+  const blur = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, r: Rect) => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(r.x, r.y, r.width, r.height);
+    ctx.clip();
+    ctx.filter = `blur(${BLUR_PX}px)`;
+    ctx.drawImage(source, 0, 0);
+    ctx.restore();
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, settings: PrivacySettings) => {
+    const { width, height } = ctx.canvas;
+    ctx.drawImage(video, 0, 0, width, height);
+    const now = performance.now();
+    const rects = now - updatedAt > STALE_MS
+      ? [{ x: 0, y: 0, width, height }]
+      : detections.map(d => maskRect(d, settings.region, (now - updatedAt) / 1000));
+    rects.forEach(r => {
+      // Clamp to the frame so drawImage gets a valid source rectangle
+      const x = Math.max(0, r.x);
+      const y = Math.max(0, r.y);
+      const clamped = { x, y, width: Math.min(width, r.x + r.width) - x, height: Math.min(height, r.y + r.height) - y };
+      if (clamped.width <= 0 || clamped.height <= 0) return;
+      if (settings.style === 'blur') blur(ctx, video, clamped);
+      else pixelate(ctx, video, clamped);
+    });
+  };
+
+  const reset = () => {
+    detections = [];
+    updatedAt = 0;
+  };
+
+  return { update, draw, reset };
+};
+
+export type PrivacyMask = ReturnType<typeof createPrivacyMask>;
+
+// Redraws `canvas` from `video` every animation frame until the returned stop function is called
+export const runPrivacyLoop = (canvas: HTMLCanvasElement, video: HTMLVideoElement, mask: PrivacyMask, settings: () => PrivacySettings) => {
+  const ctx = canvas.getContext('2d');
+  let frame: number | null = null;
+  const tick = () => {
+    if (ctx && video.videoWidth > 0) {
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      mask.draw(ctx, video, settings());
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+  return () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
@@ -0,0 +1,335 @@
+import { DetectionSpeed, ProfileSettings, ProfileStore, ProfileSwitch, SettingsProfile } from '../types';
+import { DEFAULT_COUNTER_SETTINGS } from './counter';
+import { DEFAULT_SCHEDULE, SPEED_PRESETS } from './scheduler';
+import { BUNDLE_SCHEMA } from './export';
+
+const STORAGE_KEY = 'dx-profiles';
+
+export const PROFILES_SCHEMA = 'dx-techies.settings-profiles';
+/**
+ * Bump whenever a field is removed or changes meaning, and teach readDocument
+ * to upgrade documents of the previous version.
+ */
+export const PROFILES_VERSION = 1;
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  threshold: DEFAULT_COUNTER_SETTINGS.threshold,
+  confidence: DEFAULT_COUNTER_SETTINGS.confidence,
+  dwellLimit: DEFAULT_COUNTER_SETTINGS.dwellLimit,
+  detectionSpeed: DetectionSpeed.NORMAL,
+  schedule: DEFAULT_SCHEDULE,
+  soundEnabled: true
+};
+
+// Accepted ranges, the same as the Detection Parameters sliders: [min, max, whole numbers only]
+const LIMITS: Record<string, [number, number, boolean]> = {
+  threshold: [1, 20, true],
+  confidence: [0.1, 0.9, false],
+  dwellLimit: [0, 300, true],
+  detectionsPerSecond: [1, 30, true],
+  cpuBudget: [0.1, 1, false]
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSpeed = (value: unknown): value is DetectionSpeed =>
+  (Object.values(DetectionSpeed) as unknown[]).includes(value);
+
+// The value if it is within LIMITS[key]; otherwise null, with the problem added to `errors`
+const readNumber = (errors: string[], path: string, value: unknown, key: string) => {
+  const [min, max, whole] = LIMITS[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (whole && !Number.isInteger(value))) {
+    errors.push(`${path}: must be ${whole ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+    return null;
+  }
+  return value;
+};
+
+const readBoolean = (errors: string[], path: string, value: unknown) => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}: must be true or false`);
+    return null;
+  }
+  return value;
+};
+
+// Profile settings from a file or storage, or null with every problem added to `errors`
+const readSettings = (errors: string[], path: string, settings: unknown): ProfileSettings | null => {
+  if (!isRecord(settings)) {
+    errors.push(`${path}: missing`);
+    return null;
+  }
+  const threshold = readNumber(errors, `${path}.threshold`, settings.threshold, 'threshold');
+  const confidence = readNumber(errors, `${path}.confidence`, settings.confidence, 'confidence');
+  const dwellLimit = readNumber(errors, `${path}.dwellLimit`, settings.dwellLimit, 'dwellLimit');
+  const detectionSpeed = isSpeed(settings.detectionSpeed) ? settings.detectionSpeed : null;
+  if (detectionSpeed === null) errors.push(`${path}.detectionSpeed: must be one of ${Object.values(DetectionSpeed).join(', ')}`);
+  const soundEnabled = readBoolean(errors, `${path}.soundEnabled`, settings.soundEnabled);
+  const schedule = settings.schedule;
+  if (!isRecord(schedule)) {
+    errors.push(`${path}.schedule: missing`);
+    return null;
+  }
+  const target = schedule.target === 'rate' || schedule.target === 'budget' ? schedule.target : null;
+  if (target === null) errors.push(`${path}.schedule.target: must be rate or budget`);
+  const detectionsPerSecond = readNumber(errors, `${path}.schedule.detectionsPerSecond`, schedule.detectionsPerSecond, 'detectionsPerSecond');
+  const cpuBudget = readNumber(errors, `${path}.schedule.cpuBudget`, schedule.cpuBudget, 'cpuBudget');
+  const skipStatic = readBoolean(errors, `${path}.schedule.skipStatic`, schedule.skipStatic);
+  if (threshold === null || confidence === null || dwellLimit === null || detectionSpeed === null || soundEnabled === null ||
+    target === null || detectionsPerSecond === null || cpuBudget === null || skipStatic === null) return null;
+  return { threshold, confidence, dwellLimit, detectionSpeed, soundEnabled, schedule: { target, detectionsPerSecond, cpuBudget, skipStatic } };
+};
+
+const defaultStore = (): ProfileStore => {
+  const id = newId();
+  return {
+    profiles: [{ id, name: 'Default', settings: DEFAULT_PROFILE_SETTINGS }],
+    activeId: id,
+    autoSwitch: { enabled: false, entries: [] }
+  };
+};
+
+// A stored profile whose settings don't check out falls back to the defaults; one without an id is dropped
+const readStoredProfile = (value: unknown): SettingsProfile | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  // Fields added since the profile was saved take their defaults
+  const settings = isRecord(value.settings) ? { ...DEFAULT_PROFILE_SETTINGS, ...value.settings } : null;
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Profile',
+    settings: readSettings([], 'settings', settings) ?? DEFAULT_PROFILE_SETTINGS
+  };
+};
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultStore();
+    const store: unknown = JSON.parse(stored);
+    if (!isRecord(store) || !Array.isArray(store.profiles)) return defaultStore();
+    const profiles = store.profiles.map(readStoredProfile).filter((p): p is SettingsProfile => p !== null);
+    if (profiles.length === 0) return defaultStore();
+    const ids = profiles.map(p => p.id);
+    const autoSwitch = isRecord(store.autoSwitch) ? store.autoSwitch : {};
+    const entries = Array.isArray(autoSwitch.entries) ? autoSwitch.entries : [];
+    return {
+      profiles,
+      activeId: typeof store.activeId === 'string' && ids.includes(store.activeId) ? store.activeId : ids[0],
+      autoSwitch: {
+        enabled: autoSwitch.enabled === true,
+        entries: entries.flatMap((e: unknown): ProfileSwitch[] =>
+          isRecord(e) && typeof e.id === 'string' && typeof e.start === 'string' && TIME_PATTERN.test(e.start) &&
+            typeof e.profileId === 'string' && ids.includes(e.profileId)
+            ? [{ id: e.id, start: e.start, profileId: e.profileId }]
+            : [])
+      }
+    };
+  } catch {
+    return defaultStore();
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const activeProfile = (store: ProfileStore): SettingsProfile =>
+  store.profiles.find(p => p.id === store.activeId) ?? store.profiles[0];
+
+// `name`, or `name (2)`, `name (3)`... if it is already taken
+export const uniqueName = (name: string, taken: string[]) => {
+  let candidate = name;
+  for (let n = 2; taken.includes(candidate); n++) candidate = `${name} (${n})`;
+  return candidate;
+};
+
+export const createProfile = (name: string, settings: ProfileSettings, taken: string[]): SettingsProfile =>
+  ({ id: newId(), name: uniqueName(name, taken), settings });
+
+export const createProfileSwitch = (profileId: string, start = '08:00'): ProfileSwitch =>
+  ({ id: newId(), start, profileId });
+
+const toMinutes = (start: string) => {
+  const [hours, minutes] = start.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * The switch in force at `date` and the epoch milliseconds it took effect.
+ * Before the first start of the day, yesterday's last switch still applies.
+ */
+export const scheduledSwitch = (entries: ProfileSwitch[], date: Date) => {
+  if (entries.length === 0) return null;
+  const sorted = [...entries].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  const now = date.getHours() * 60 + date.getMinutes();
+  const today = sorted.filter(e => toMinutes(e.start) <= now).pop();
+  const entry = today ?? sorted[sorted.length - 1];
+  const start = toMinutes(entry.start);
+  const since = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (today ? 0 : 1), Math.floor(start / 60), start % 60);
+  return { entry, since: since.getTime() };
+};
+
+// --- Import and export ---------------------------------------------------------------
+
+export interface ProfilesDocument {
+  schema: typeof PROFILES_SCHEMA;
+  version: number;
+  exportedAt: string;
+  profiles: { name: string; settings: ProfileSettings }[];
+  // Switches refer to profiles by name
+  autoSwitch: { enabled: boolean; entries: { start: string; profile: string }[] };
+}
+
+export const buildProfilesDocument = (store: ProfileStore): ProfilesDocument => {
+  // Names are the keys in the file, so duplicates get a suffix
+  const names = new Map<string, string>();
+  store.profiles.forEach(p => names.set(p.id, uniqueName(p.name.trim() || 'Profile', [...names.values()])));
+  return {
+    schema: PROFILES_SCHEMA,
+    version: PROFILES_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: store.profiles.map(p => ({ name: names.get(p.id)!, settings: p.settings })),
+    autoSwitch: {
+      enabled: store.autoSwitch.enabled,
+      entries: store.autoSwitch.entries
+        .filter(e => names.has(e.profileId))
+        .map(e => ({ start: e.start, profile: names.get(e.profileId)! }))
+    }
+  };
+};
+
+// A session bundle exported from History or the Dashboard becomes one profile with the settings it was recorded with
+const fromSessionBundle = (bundle: JsonRecord): JsonRecord => {
+  const settings = isRecord(bundle.settings) ? bundle.settings : {};
+  const session = isRecord(bundle.session) ? bundle.session : {};
+  const speed = settings.detectionSpeed ?? DetectionSpeed.NORMAL;
+  const started = typeof session.startTime === 'string' ? new Date(session.startTime).toLocaleString() : 'session';
+  return {
+    schema: PROFILES_SCHEMA,
+    version: PROFILES_VERSION,
+    exportedAt: bundle.exportedAt,
+    profiles: [{
+      name: `${typeof session.source === 'string' ? session.source : 'Session'} ${started}`,
+      settings: {
+        threshold: settings.threshold,
+        confidence: settings.confidence,
+        dwellLimit: settings.dwellLimit ?? DEFAULT_PROFILE_SETTINGS.dwellLimit,
+        detectionSpeed: speed,
+        // Sessions from before the detection scheduler ran at their speed preset
+        schedule: settings.schedule ?? { ...DEFAULT_SCHEDULE, detectionsPerSecond: SPEED_PRESETS[isSpeed(speed) ? speed : DetectionSpeed.NORMAL] },
+        soundEnabled: settings.soundEnabled ?? DEFAULT_PROFILE_SETTINGS.soundEnabled
+      }
+    }],
+    autoSwitch: { enabled: false, entries: [] }
+  };
+};
+
+// A profiles document of a version this app reads, or a session bundle converted to one
+const readDocument = (doc: unknown): JsonRecord => {
+  if (!isRecord(doc)) throw new Error('Not a settings profiles file');
+  if (doc.schema === BUNDLE_SCHEMA) return fromSessionBundle(doc);
+  if (doc.schema !== PROFILES_SCHEMA) throw new Error('Not a settings profiles file');
+  if (typeof doc.version !== 'number' || !Number.isInteger(doc.version) || doc.version < 1) throw new Error('Missing or invalid version');
+  if (doc.version > PROFILES_VERSION) {
+    throw new Error(`Written by a newer version of the app (profiles version ${doc.version}, this app reads up to ${PROFILES_VERSION})`);
+  }
+  return doc;
+};
+
+// The document built from `doc`, complete only when no errors were found
+const validate = (doc: JsonRecord) => {
+  const errors: string[] = [];
+  const profiles: ProfilesDocument['profiles'] = [];
+  const entries: ProfilesDocument['autoSwitch']['entries'] = [];
+  const document: ProfilesDocument = {
+    schema: PROFILES_SCHEMA,
+    version: PROFILES_VERSION,
+    exportedAt: typeof doc.exportedAt === 'string' ? doc.exportedAt : new Date().toISOString(),
+    profiles,
+    autoSwitch: { enabled: false, entries }
+  };
+  if (!Array.isArray(doc.profiles) || doc.profiles.length === 0) return { errors: ['profiles: must be a non-empty list'], document };
+  const names = new Set<string>();
+  doc.profiles.forEach((profile: unknown, i: number) => {
+    const path = `profiles[${i}]`;
+    if (!isRecord(profile)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    let name: string | null = null;
+    if (typeof profile.name !== 'string' || !profile.name.trim()) errors.push(`${path}.name: must be a non-empty string`);
+    else if (names.has(profile.name)) errors.push(`${path}.name: "${profile.name}" is used twice`);
+    else name = profile.name;
+    if (name !== null) names.add(name);
+    const settings = readSettings(errors, `${path}.settings`, profile.settings);
+    if (name !== null && settings) profiles.push({ name, settings });
+  });
+  const autoSwitch = doc.autoSwitch ?? { enabled: false, entries: [] };
+  if (!isRecord(autoSwitch)) return { errors: [...errors, 'autoSwitch: must be an object'], document };
+  document.autoSwitch.enabled = readBoolean(errors, 'autoSwitch.enabled', autoSwitch.enabled) ?? false;
+  if (!Array.isArray(autoSwitch.entries)) {
+    errors.push('autoSwitch.entries: must be a list');
+  } else {
+    autoSwitch.entries.forEach((entry: unknown, i: number) => {
+      const { start, profile } = isRecord(entry) ? entry : { start: undefined, profile: undefined };
+      const validStart = typeof start === 'string' && TIME_PATTERN.test(start);
+      const validProfile = typeof profile === 'string' && names.has(profile);
+      if (!validStart) errors.push(`autoSwitch.entries[${i}].start: must be a time as HH:MM`);
+      if (!validProfile) errors.push(`autoSwitch.entries[${i}].profile: no profile named "${profile}"`);
+      if (validStart && validProfile) entries.push({ start, profile });
+    });
+  }
+  return { errors, document };
+};
+
+/**
+ * Parses an exported profiles file, or a session bundle. Throws with every
+ * problem found, by JSON path, if it isn't valid.
+ */
+export const parseProfilesDocument = (text: string): ProfilesDocument => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const { errors, document } = validate(readDocument(json));
+  if (errors.length > 0) {
+    throw new Error(errors.length > 3 ? `${errors.slice(0, 3).join('; ')} and ${errors.length - 3} more` : errors.join('; '));
+  }
+  return document;
+};
+
+// Imported profiles replace ones with the same name and are added otherwise; a schedule in the file replaces the current one
+export const importProfiles = (store: ProfileStore, doc: ProfilesDocument): ProfileStore => {
+  const profiles = [...store.profiles];
+  const ids = new Map<string, string>();
+  doc.profiles.forEach(({ name, settings }) => {
+    const index = profiles.findIndex(p => p.name === name);
+    if (index >= 0) {
+      profiles[index] = { ...profiles[index], settings };
+      ids.set(name, profiles[index].id);
+    } else {
+      const profile = { id: newId(), name, settings };
+      profiles.push(profile);
+      ids.set(name, profile.id);
+    }
+  });
+  return {
+    ...store,
+    profiles,
+    autoSwitch: doc.autoSwitch.entries.length > 0
+      ? {
+        enabled: doc.autoSwitch.enabled,
+        entries: doc.autoSwitch.entries.map(e => createProfileSwitch(ids.get(e.profile)!, e.start))
+      }
+      : store.autoSwitch
+  };
+};
@@ -0,0 +1,163 @@
+import { AlertRule, RuleCondition } from '../types';
+
+const STORAGE_KEY = 'dx-alert-rules';
+
+// How much count history to keep for rate-of-change conditions
+const MAX_WINDOW_MS = 15 * 60 * 1000;
+
+export interface RuleContext {
+  now: number;
+  count: number;
+  threshold: number;
+  zoneCounts: Record<string, number>;
+}
+
+export interface RuleEvaluation {
+  active: AlertRule[];
+  fired: AlertRule[];
+  cleared: AlertRule[];
+}
+
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'crowd-threshold',
+    name: 'Crowd threshold',
+    enabled: true,
+    conditions: [{ type: 'count-above', forSeconds: 0 }],
+    cooldownSeconds: 0,
+    actions: ['sound', 'banner', 'log', 'notify']
+  }
+];
+
+export const loadRules = (): AlertRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_RULES;
+  } catch {
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: AlertRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+const minutesOfDay = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const inTimeWindow = (date: Date, start: string, end: string) => {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = minutesOfDay(start);
+  const to = minutesOfDay(end);
+  return from <= to ? now >= from && now < to : now >= from || now < to;
+};
+
+/**
+ * Evaluates alert rules once per detection cycle. Tracks how long each
+ * sustained condition has held, which rules are active (for hysteresis) and
+ * when each rule last fired (for cooldowns).
+ */
+export const createRuleEngine = () => {
+  let history: { t: number; count: number }[] = [];
+  let active = new Set<string>();
+  const lastFired = new Map<string, number>();
+  // When each sustained condition (rule id + index) first became true
+  const heldSince = new Map<string, number>();
+
+  const countAt = (t: number) => {
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].t <= t) return history[i].count;
+    }
+    return history[0]?.count;
+  };
+
+  const sustained = (key: string, met: boolean, forSeconds: number, now: number) => {
+    if (!met) {
+      heldSince.delete(key);
+      return false;
+    }
+    if (!heldSince.has(key)) heldSince.set(key, now);
+    return now - heldSince.get(key)! >= forSeconds * 1000;
+  };
+
+  const conditionMet = (rule: AlertRule, condition: RuleCondition, index: number, ctx: RuleContext, isActive: boolean) => {
+    const key = `${rule.id}:${index}`;
+
+    switch (condition.type) {
+      case 'count-above': {
+        // While active, the frame count only has to stay above the clear level
+        const level = isActive && rule.clearBelow !== undefined ? rule.clearBelow : condition.value ?? ctx.threshold;
+        return sustained(key, ctx.count >= level, condition.forSeconds, ctx.now);
+      }
+      case 'zone-occupancy':
+        return sustained(key, (ctx.zoneCounts[condition.zoneId] ?? 0) >= condition.value, condition.forSeconds, ctx.now);
+      case 'rate-of-change': {
+        const before = countAt(ctx.now - condition.windowSeconds * 1000);
+        if (before === undefined) return false;
+        const change = ctx.count - before;
+        return condition.delta >= 0 ? change >= condition.delta : change <= condition.delta;
+      }
+      case 'time-window':
+        return inTimeWindow(new Date(ctx.now), condition.start, condition.end);
+    }
+  };
+
+  const evaluate = (rules: AlertRule[], ctx: RuleContext): RuleEvaluation => {
+    history.push({ t: ctx.now, count: ctx.count });
+    history = history.filter(h => ctx.now - h.t <= MAX_WINDOW_MS);
+
+    const fired: AlertRule[] = [];
+    const cleared: AlertRule[] = [];
+    const nextActive = new Set<string>();
+
+    rules.forEach(rule => {
+      if (!rule.enabled || rule.conditions.length === 0) return;
+      const wasActive = active.has(rule.id);
+      // Evaluate every condition so sustained timers keep running
+      const results = rule.conditions.map((c, i) => conditionMet(rule, c, i, ctx, wasActive));
+      const met = results.every(Boolean);
+
+      if (met && wasActive) {
+        nextActive.add(rule.id);
+      } else if (met) {
+        const last = lastFired.get(rule.id);
+        if (last === undefined || ctx.now - last >= rule.cooldownSeconds * 1000) {
+          nextActive.add(rule.id);
+          lastFired.set(rule.id, ctx.now);
+          fired.push(rule);
+        }
+      } else if (wasActive) {
+        cleared.push(rule);
+      }
+    });
+
+    active = nextActive;
+    return { active: rules.filter(r => active.has(r.id)), fired, cleared };
+  };
+
+  const reset = () => {
+    history = [];
+    active = new Set();
+    lastFired.clear();
+    heldSince.clear();
+  };
+
+  return { evaluate, reset };
+};
+
+export type RuleEngine = ReturnType<typeof createRuleEngine>;
+
+export const describeCondition = (condition: RuleCondition, zoneName: (id: string) => string) => {
+  switch (condition.type) {
+    case 'count-above':
+      return `count ≥ ${condition.value ?? 'threshold'}${condition.forSeconds > 0 ? ` for ${condition.forSeconds}s` : ''}`;
+    case 'zone-occupancy':
+      return `${zoneName(condition.zoneId)} ≥ ${condition.value}${condition.forSeconds > 0 ? ` for ${condition.forSeconds}s` : ''}`;
+    case 'rate-of-change':
+      return `${condition.delta >= 0 ? 'rise' : 'drop'} of ${Math.abs(condition.delta)} within ${condition.windowSeconds}s`;
+    case 'time-window':
+      return `between ${condition.start} and ${condition.end}`;
+  }
+};
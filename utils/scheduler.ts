@@ -0,0 +1,253 @@
+import type * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { WorkerDetector } from './detectionWorker';
+import { DetectionSpeed, ScheduleSettings } from '../types';
+import type { TilingOptions } from './tiling';
+
+export interface DetectionSource {
+  id: string;
+  video: HTMLVideoElement;
+  // `reused` is set when the scene hasn't changed and the previous predictions are passed on again
+  onResult: (predictions: cocoSsd.DetectedObject[], info: { reused: boolean }) => void;
+  // Read on every frame; null runs a single full-frame pass
+  getTiling?: () => TilingOptions | null;
+}
+
+export interface SchedulerMetrics {
+  // Smoothed worker time per inference
+  latencyMs: number;
+  // Share of recent ticks answered from the previous result instead of the model
+  skipRatio: number;
+  // Fresh model results over the last couple of seconds, all sources together
+  detectionsPerSecond: number;
+  intervalMs: number;
+  backend: string;
+}
+
+// Detections per second each Processing Mode starts from
+export const SPEED_PRESETS: Record<DetectionSpeed, number> = {
+  [DetectionSpeed.FAST]: 15,
+  [DetectionSpeed.NORMAL]: 8,
+  [DetectionSpeed.ACCURATE]: 4,
+  // Several model calls per frame
+  [DetectionSpeed.TILED]: 2
+};
+
+export const DEFAULT_SCHEDULE: ScheduleSettings = {
+  target: 'rate',
+  detectionsPerSecond: SPEED_PRESETS[DetectionSpeed.NORMAL],
+  cpuBudget: 0.5,
+  skipStatic: true
+};
+
+// How long to wait before checking again when no source has a frame ready
+const IDLE_DELAY = 100;
+// Never tick faster than this, whatever the target
+const MIN_INTERVAL = 15;
+
+// A live frame the worker hasn't started on within this time is skipped
+const MAX_FRAME_AGE_MS = 1000;
+
+// Frame differencing runs on a tiny greyscale thumbnail
+const DIFF_WIDTH = 32;
+const DIFF_HEIGHT = 18;
+// Mean absolute luminance change (0-255) that counts as motion
+const MOTION_THRESHOLD = 4;
+// Run the model at least this often on a static scene, well within the tracker's coasting time
+const STATIC_REFRESH_MS = 1000;
+
+const LATENCY_SMOOTHING = 0.2;
+const SKIP_WINDOW = 50;
+const RATE_WINDOW_MS = 2000;
+
+interface SourceState {
+  thumbnail: OffscreenCanvasRenderingContext2D | null;
+  // Thumbnail of the last frame sent to the model
+  reference: Uint8Array | null;
+  lastDetectAt: number;
+  lastPredictions: cocoSsd.DetectedObject[] | null;
+}
+
+const luminance = (ctx: OffscreenCanvasRenderingContext2D, video: HTMLVideoElement) => {
+  ctx.drawImage(video, 0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+  const luma = new Uint8Array(DIFF_WIDTH * DIFF_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return luma;
+};
+
+const meanDifference = (a: Uint8Array, b: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+/**
+ * Shares a single detection worker between any number of video sources.
+ * Sources are served round-robin: each tick grabs one frame as an ImageBitmap
+ * and hands it to the worker without waiting for the result, so the UI thread
+ * never blocks on inference. When the worker falls behind it keeps only the
+ * newest frame per source.
+ *
+ * The tick interval adapts to measured inference latency: it aims for the
+ * configured detection rate or CPU budget but never submits faster than the
+ * worker can keep up. With `skipStatic`, a source whose picture hasn't changed
+ * gets its previous result again instead of a model call.
+ */
+export const createDetectionScheduler = (detector: WorkerDetector) => {
+  let sources: DetectionSource[] = [];
+  const states = new Map<DetectionSource, SourceState>();
+  let cursor = 0;
+  let schedule = DEFAULT_SCHEDULE;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  // Bumped on every start so a tick still grabbing a frame after a restart winds down
+  let generation = 0;
+  let oneOffId = 0;
+
+  let latencyMs = 0;
+  let recentSkips: boolean[] = [];
+  let resultTimes: number[] = [];
+
+  const intervalMs = () => {
+    const wanted = schedule.target === 'rate'
+      ? 1000 / Math.max(0.1, schedule.detectionsPerSecond)
+      : latencyMs / Math.min(1, Math.max(0.05, schedule.cpuBudget));
+    return Math.max(MIN_INTERVAL, wanted, latencyMs);
+  };
+
+  const stateFor = (source: DetectionSource) => {
+    let state = states.get(source);
+    if (!state) {
+      const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(DIFF_WIDTH, DIFF_HEIGHT) : null;
+      state = {
+        thumbnail: canvas?.getContext('2d', { willReadFrequently: true }) ?? null,
+        reference: null,
+        lastDetectAt: 0,
+        lastPredictions: null
+      };
+      states.set(source, state);
+    }
+    return state;
+  };
+
+  const nextReadySource = () => {
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[(cursor + i) % sources.length];
+      if (source.video.readyState === 4) {
+        cursor = (cursor + i + 1) % sources.length;
+        return source;
+      }
+    }
+    return null;
+  };
+
+  const recordTick = (skipped: boolean) => {
+    recentSkips = [...recentSkips, skipped].slice(-SKIP_WINDOW);
+  };
+
+  const submit = async (source: DetectionSource, state: SourceState) => {
+    const frame = await createImageBitmap(source.video);
+    state.lastDetectAt = performance.now();
+    detector.detect(source.id, frame, MAX_FRAME_AGE_MS, source.getTiling?.() ?? undefined)
+      .then(result => {
+        // Null means the worker dropped the frame
+        if (!result) return;
+        latencyMs = latencyMs === 0 ? result.inferenceMs : latencyMs + (result.inferenceMs - latencyMs) * LATENCY_SMOOTHING;
+        const now = performance.now();
+        resultTimes = [...resultTimes.filter(t => now - t < RATE_WINDOW_MS), now];
+        // The source may have been removed while inference was in flight
+        if (!sources.includes(source)) return;
+        state.lastPredictions = result.predictions;
+        source.onResult(result.predictions, { reused: false });
+      })
+      .catch(err => console.warn(`Detection cycle skipped for ${source.id}:`, err));
+  };
+
+  const serve = async (source: DetectionSource) => {
+    const state = stateFor(source);
+    const current = schedule.skipStatic && state.thumbnail ? luminance(state.thumbnail, source.video) : null;
+    const isStatic = current !== null
+      && state.reference !== null
+      && state.lastPredictions !== null
+      && performance.now() - state.lastDetectAt < STATIC_REFRESH_MS
+      && meanDifference(current, state.reference) < MOTION_THRESHOLD;
+
+    recordTick(isStatic);
+    if (isStatic) {
+      source.onResult(state.lastPredictions!, { reused: true });
+      return;
+    }
+    state.reference = current;
+    await submit(source, state);
+  };
+
+  const tick = async (gen: number) => {
+    timer = null;
+    if (!running || gen !== generation) return;
+
+    const started = performance.now();
+    const source = nextReadySource();
+    if (source) {
+      try {
+        await serve(source);
+      } catch (err) {
+        console.warn(`Could not grab a frame from ${source.id}:`, err);
+      }
+    }
+
+    if (running && gen === generation) {
+      const wait = source ? Math.max(0, intervalMs() - (performance.now() - started)) : IDLE_DELAY;
+      timer = setTimeout(() => requestAnimationFrame(() => tick(gen)), wait);
+    }
+  };
+
+  const register = (source: DetectionSource) => {
+    sources = [...sources.filter(s => s.id !== source.id), source];
+    return () => {
+      sources = sources.filter(s => s !== source);
+      states.delete(source);
+    };
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    tick(++generation);
+  };
+
+  const stop = () => {
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const setSchedule = (settings: ScheduleSettings) => {
+    schedule = settings;
+  };
+
+  const metrics = (): SchedulerMetrics => {
+    const now = performance.now();
+    const recentResults = resultTimes.filter(t => now - t < RATE_WINDOW_MS).length;
+    return {
+      latencyMs,
+      skipRatio: recentSkips.length > 0 ? recentSkips.filter(Boolean).length / recentSkips.length : 0,
+      detectionsPerSecond: (recentResults * 1000) / RATE_WINDOW_MS,
+      intervalMs: intervalMs(),
+      backend: detector.backend()
+    };
+  };
+
+  // Runs a single inference outside the round-robin, e.g. for offline analysis.
+  // One-off frames get their own source id and no age limit, so they are never dropped.
+  const detect = async (input: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement) => {
+    const frame = await createImageBitmap(input);
+    const result = await detector.detect(`one-off-${++oneOffId}`, frame);
+    return result?.predictions ?? [];
+  };
+
+  return { register, start, stop, setSchedule, metrics, detect, sourceCount: () => sources.length };
+};
+
+export type DetectionScheduler = ReturnType<typeof createDetectionScheduler>;
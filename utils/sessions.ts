@@ -0,0 +1,88 @@
+import { CountSample, EventClip, Screenshot, SessionRecord, StoredScreenshot } from '../types';
+import {
+  deleteRecord,
+  deleteRecordsByIndex,
+  getAllRecords,
+  getRecordsByIndex,
+  putRecord
+} from './db';
+import { buildSessionBundle } from './export';
+
+export const saveSession = (session: SessionRecord) => putRecord('sessions', session);
+
+export const listSessions = async () => {
+  const sessions = await getAllRecords<SessionRecord>('sessions');
+  return sessions.sort((a, b) => b.startTime - a.startTime);
+};
+
+export const saveScreenshot = (sessionId: string, shot: Screenshot) =>
+  putRecord<StoredScreenshot>('screenshots', {
+    id: shot.id,
+    sessionId,
+    blob: shot.blob,
+    timestamp: shot.timestamp,
+    counts: shot.counts,
+    reason: shot.reason
+  });
+
+// Captures saved before per-class counts only have the people count
+export const storedCounts = (shot: StoredScreenshot): Record<string, number> =>
+  shot.counts ?? { person: shot.count ?? 0 };
+
+export const loadSessionScreenshots = (sessionId: string) =>
+  getRecordsByIndex<StoredScreenshot>('screenshots', 'sessionId', sessionId);
+
+export const saveEventClip = (clip: EventClip) => putRecord('events', clip);
+
+export const listEventClips = async () => {
+  const clips = await getAllRecords<EventClip>('events');
+  return clips.sort((a, b) => b.time - a.time);
+};
+
+export const deleteEventClip = (id: string) => deleteRecord('events', id);
+
+export const deleteSession = async (sessionId: string) => {
+  await deleteRecordsByIndex('screenshots', 'sessionId', sessionId);
+  await deleteRecordsByIndex('events', 'sessionId', sessionId);
+  await deleteRecord('sessions', sessionId);
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Full session as a self-contained JSON bundle, screenshots inlined as data URLs
+export const exportSession = async (session: SessionRecord) => {
+  const shots = await loadSessionScreenshots(session.id);
+  const screenshots = await Promise.all(shots.map(async shot => ({
+    timestamp: shot.timestamp,
+    counts: storedCounts(shot),
+    reason: shot.reason,
+    dataUrl: await blobToDataUrl(shot.blob)
+  })));
+  const json = JSON.stringify(buildSessionBundle(session, screenshots), null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), `DX_Session_${session.id}.json`);
+};
+
+// Collapses per-detection samples to one point per second (the peak of that second)
+export const toSecondSeries = (series: CountSample[], origin: number) => {
+  const buckets = new Map<number, number>();
+  series.forEach(s => {
+    const second = Math.floor((s.t - origin) / 1000);
+    buckets.set(second, Math.max(buckets.get(second) ?? 0, s.count));
+  });
+  return Array.from(buckets, ([second, count]) => ({ second, count })).sort((a, b) => a.second - b.second);
+};
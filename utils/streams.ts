@@ -0,0 +1,267 @@
+import { NetworkSourceSettings } from '../types';
+import { createJpegSplitter } from './jpeg';
+
+const STORAGE_KEY = 'dx-network-source';
+
+export const DEFAULT_NETWORK_SOURCE: NetworkSourceSettings = {
+  url: '',
+  relayUrl: 'http://localhost:8788',
+  mjpegViaRelay: false
+};
+
+const FRAME_RATE = 30;
+// A connection that delivers nothing for this long is treated as dropped
+const STALL_MS = 5000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// Seconds the relayed video may fall behind the newest data before it skips ahead
+const MAX_LAG_S = 1.5;
+// Seconds of relayed video kept in the Media Source buffer behind the playhead
+const KEEP_BEHIND_S = 10;
+
+export const loadNetworkSource = (): NetworkSourceSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_NETWORK_SOURCE, ...JSON.parse(stored) } : DEFAULT_NETWORK_SOURCE;
+  } catch {
+    return DEFAULT_NETWORK_SOURCE;
+  }
+};
+
+export const saveNetworkSource = (settings: NetworkSourceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isRtspUrl = (url: string) => /^rtsps?:\/\//i.test(url.trim());
+
+// Host and port only, so camera credentials in the URL never reach the log
+export const streamLabel = (url: string) => {
+  try {
+    return new URL(url.trim()).host || url;
+  } catch {
+    return url;
+  }
+};
+
+export type StreamStatus = 'live' | 'reconnecting';
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Reads a multipart MJPEG response and hands over each JPEG as it completes
+const readMjpeg = async (url: string, signal: AbortSignal, onJpeg: (jpeg: Blob) => void) => {
+  const response = await fetch(url, { signal, cache: 'no-store' });
+  if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+  const reader = response.body.getReader();
+  const splitter = createJpegSplitter();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) throw new Error('stream ended');
+    splitter.push(value).forEach(jpeg => onJpeg(new Blob([jpeg], { type: 'image/jpeg' })));
+  }
+};
+
+/**
+ * Plays the relay's fragmented MP4 through Media Source Extensions in a
+ * detached video element. Runs until the connection fails or `signal` aborts.
+ */
+const playRelayed = (url: string, signal: AbortSignal, video: HTMLVideoElement) => new Promise<never>((_, reject) => {
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  let socket: WebSocket | null = null;
+  let sourceBuffer: SourceBuffer | null = null;
+  const queue: ArrayBuffer[] = [];
+  let failed = false;
+
+  const fail = (err: unknown) => {
+    if (failed) return;
+    failed = true;
+    socket?.close();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+    reject(err instanceof Error ? err : new Error(errorMessage(err)));
+  };
+  signal.addEventListener('abort', () => fail(signal.reason), { once: true });
+
+  const pump = () => {
+    if (!sourceBuffer || sourceBuffer.updating) return;
+    const { buffered } = sourceBuffer;
+    if (buffered.length > 0) {
+      const end = buffered.end(buffered.length - 1);
+      // Stay near the live edge instead of drifting behind after hiccups
+      if (end - video.currentTime > MAX_LAG_S) video.currentTime = end - 0.2;
+      if (video.currentTime - buffered.start(0) > KEEP_BEHIND_S * 2) {
+        sourceBuffer.remove(0, video.currentTime - KEEP_BEHIND_S);
+        return;
+      }
+    }
+    const next = queue.shift();
+    if (!next) return;
+    try {
+      sourceBuffer.appendBuffer(next);
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  mediaSource.addEventListener('sourceopen', () => {
+    socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    socket.onmessage = (e) => {
+      if (typeof e.data === 'string') {
+        const message = JSON.parse(e.data);
+        if (message.type === 'error') {
+          fail(new Error(message.message));
+        } else if (message.type === 'init') {
+          if (!MediaSource.isTypeSupported(message.mime)) {
+            fail(new Error(`browser can't play ${message.mime}`));
+            return;
+          }
+          sourceBuffer = mediaSource.addSourceBuffer(message.mime);
+          sourceBuffer.mode = 'sequence';
+          sourceBuffer.onupdateend = pump;
+        }
+        return;
+      }
+      queue.push(e.data);
+      pump();
+      if (video.paused && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) video.play().catch(() => {});
+    };
+    socket.onerror = () => fail(new Error('relay unreachable'));
+    socket.onclose = () => fail(new Error('relay closed the connection'));
+  }, { once: true });
+
+  video.src = objectUrl;
+});
+
+/**
+ * An IP camera as a local MediaStream. MJPEG is fetched directly (or through
+ * the relay), RTSP always goes through scripts/stream-relay.mjs. Frames are
+ * drawn onto a canvas whose capture stream is what the app sees, so a dropped
+ * connection just freezes the picture while the stream reconnects with
+ * exponential backoff; the video element and detection pipeline never notice.
+ */
+export const createNetworkStream = (
+  settings: NetworkSourceSettings,
+  onStatus: (status: StreamStatus, detail: string) => void
+) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const stopController = new AbortController();
+  let lastFrameAt = 0;
+  let sized = false;
+  let live = false;
+  let resolveFirstFrame: (() => void) | null = null;
+
+  const relayBase = settings.relayUrl.replace(/\/$/, '');
+  const rtsp = isRtspUrl(settings.url);
+
+  const drawFrame = (source: CanvasImageSource, width: number, height: number) => {
+    if (!sized) {
+      canvas.width = width;
+      canvas.height = height;
+      sized = true;
+    }
+    ctx?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    lastFrameAt = Date.now();
+    if (!live) {
+      live = true;
+      onStatus('live', resolveFirstFrame ? 'connected' : 'reconnected');
+      resolveFirstFrame?.();
+      resolveFirstFrame = null;
+    }
+  };
+
+  const connectMjpeg = (signal: AbortSignal) => {
+    const url = settings.mjpegViaRelay
+      ? `${relayBase}/mjpeg?url=${encodeURIComponent(settings.url.trim())}`
+      : settings.url.trim();
+    // Decode only the newest frame; if decoding falls behind, frames in between are dropped
+    let decoding = false;
+    return readMjpeg(url, signal, async (jpeg) => {
+      if (decoding) return;
+      decoding = true;
+      try {
+        const bitmap = await createImageBitmap(jpeg);
+        if (!signal.aborted) drawFrame(bitmap, bitmap.width, bitmap.height);
+        bitmap.close();
+      } catch {
+        // A corrupt frame; the next one will do
+      } finally {
+        decoding = false;
+      }
+    });
+  };
+
+  const connectRtsp = (signal: AbortSignal) => {
+    const url = `${relayBase.replace(/^http/, 'ws')}/rtsp?url=${encodeURIComponent(settings.url.trim())}`;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    let lastTime = -1;
+    const copy = () => {
+      if (signal.aborted) return;
+      if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.currentTime !== lastTime) {
+        lastTime = video.currentTime;
+        drawFrame(video, video.videoWidth, video.videoHeight);
+      }
+      requestAnimationFrame(copy);
+    };
+    requestAnimationFrame(copy);
+    return playRelayed(url, signal, video);
+  };
+
+  const run = async () => {
+    let attempt = 0;
+    while (!stopController.signal.aborted) {
+      const connection = new AbortController();
+      const abortConnection = () => connection.abort(new Error('stopped'));
+      stopController.signal.addEventListener('abort', abortConnection, { once: true });
+      lastFrameAt = Date.now();
+      const watchdog = setInterval(() => {
+        if (Date.now() - lastFrameAt > STALL_MS) connection.abort(new Error(`no frames for ${STALL_MS / 1000} s`));
+      }, 1000);
+
+      let reason = '';
+      try {
+        await (rtsp ? connectRtsp(connection.signal) : connectMjpeg(connection.signal));
+      } catch (err) {
+        reason = connection.signal.aborted ? errorMessage(connection.signal.reason) : errorMessage(err);
+      }
+      clearInterval(watchdog);
+      stopController.signal.removeEventListener('abort', abortConnection);
+      connection.abort();
+      if (stopController.signal.aborted) return;
+
+      // A connection that got as far as showing frames starts the backoff over
+      if (live) attempt = 0;
+      live = false;
+      attempt++;
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** (attempt - 1), RECONNECT_MAX_MS);
+      onStatus('reconnecting', `${reason}; retrying in ${Math.round(delay / 1000)} s (attempt ${attempt})`);
+      await sleep(delay, stopController.signal);
+    }
+  };
+
+  // Resolves with the stream once the first frame has arrived, however many attempts that takes
+  const start = () => new Promise<MediaStream>((resolve, reject) => {
+    const stream = canvas.captureStream(FRAME_RATE);
+    resolveFirstFrame = () => resolve(stream);
+    stopController.signal.addEventListener('abort', () => reject(new Error('stopped')), { once: true });
+    run();
+  });
+
+  const stop = () => stopController.abort();
+
+  return { start, stop };
+};
+
+export type NetworkStream = ReturnType<typeof createNetworkStream>;
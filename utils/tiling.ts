@@ -0,0 +1,80 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilingOptions {
+  // Areas to tile, in frame pixels; empty means the whole frame
+  regions: Rect[];
+  tileSize: number;
+  // Share of a tile that overlaps its neighbour, so people on a seam appear whole in one tile
+  overlap: number;
+}
+
+export const DEFAULT_TILING: Omit<TilingOptions, 'regions'> = {
+  tileSize: 640,
+  overlap: 0.25
+};
+
+// Boxes of the same class are duplicates above this IoU...
+const IOU_THRESHOLD = 0.5;
+// ...or when this much of the smaller box lies inside the larger, which catches
+// a person cut in half by a tile edge next to the whole-person box
+const CONTAINMENT_THRESHOLD = 0.7;
+
+// Tile starts along one axis: evenly spread so the first and last tiles sit flush with the edges
+const tileStarts = (start: number, length: number, tile: number, overlap: number) => {
+  if (length <= tile) return [start];
+  const stride = tile * (1 - overlap);
+  const count = Math.ceil((length - tile) / stride) + 1;
+  const step = (length - tile) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(start + i * step));
+};
+
+export const computeTiles = (frameWidth: number, frameHeight: number, { regions, tileSize, overlap }: TilingOptions): Rect[] => {
+  const areas = regions.length > 0 ? regions : [{ x: 0, y: 0, width: frameWidth, height: frameHeight }];
+  return areas.flatMap(area => {
+    // Clamp to the frame; regions are drawn on the primary feed and may outlive a resolution change
+    const x = Math.max(0, Math.round(area.x));
+    const y = Math.max(0, Math.round(area.y));
+    const width = Math.min(frameWidth - x, Math.round(area.width));
+    const height = Math.min(frameHeight - y, Math.round(area.height));
+    if (width < 16 || height < 16) return [];
+    const tileWidth = Math.min(tileSize, width);
+    const tileHeight = Math.min(tileSize, height);
+    return tileStarts(y, height, tileHeight, overlap).flatMap(ty =>
+      tileStarts(x, width, tileWidth, overlap).map(tx => ({ x: tx, y: ty, width: tileWidth, height: tileHeight }))
+    );
+  });
+};
+
+const overlapArea = (a: DetectedObject['bbox'], b: DetectedObject['bbox']) => {
+  const w = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]);
+  const h = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+/**
+ * Greedy per-class non-max suppression across tiles: keeps the highest-scoring
+ * box and drops any same-class box that overlaps it heavily or lies mostly
+ * inside it.
+ */
+export const nonMaxSuppression = (objects: DetectedObject[]) => {
+  const kept: DetectedObject[] = [];
+  [...objects].sort((a, b) => b.score - a.score).forEach(candidate => {
+    const areaC = candidate.bbox[2] * candidate.bbox[3];
+    const duplicate = kept.some(k => {
+      if (k.class !== candidate.class) return false;
+      const inter = overlapArea(k.bbox, candidate.bbox);
+      if (inter === 0) return false;
+      const areaK = k.bbox[2] * k.bbox[3];
+      return inter / (areaK + areaC - inter) > IOU_THRESHOLD || inter / Math.min(areaK, areaC) > CONTAINMENT_THRESHOLD;
+    });
+    if (!duplicate) kept.push(candidate);
+  });
+  return kept;
+};
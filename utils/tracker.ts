@@ -0,0 +1,203 @@
+import { Detection, Point } from '../types';
+
+export interface TrackerOptions {
+  // Minimum IoU between a predicted track box and a detection to associate them
+  iouThreshold: number;
+  // Fallback gate for fast movers: centroid distance as a fraction of the box diagonal
+  maxCentroidDistance: number;
+  // How long an unmatched track is coasted on its motion model before being dropped
+  maxCoastMs: number;
+  trailLength: number;
+}
+
+// How long an unmatched track survives by default; anything keyed by track id can forget it after this
+export const DEFAULT_MAX_COAST_MS = 1500;
+
+const DEFAULT_OPTIONS: TrackerOptions = {
+  iouThreshold: 0.2,
+  maxCentroidDistance: 0.6,
+  maxCoastMs: DEFAULT_MAX_COAST_MS,
+  trailLength: 24
+};
+
+// Process / measurement noise for the constant-velocity model (pixels, seconds)
+const PROCESS_NOISE = 400;
+const MEASUREMENT_NOISE = 36;
+
+// One-dimensional constant-velocity Kalman filter: state [position, velocity]
+interface AxisFilter {
+  p: number;
+  v: number;
+  P: [number, number, number, number];
+}
+
+const createAxis = (position: number): AxisFilter => ({
+  p: position,
+  v: 0,
+  P: [MEASUREMENT_NOISE, 0, 0, 1000]
+});
+
+const predictAxis = (f: AxisFilter, dt: number) => {
+  const [p00, p01, p10, p11] = f.P;
+  const q = PROCESS_NOISE;
+  f.p += f.v * dt;
+  f.P = [
+    p00 + dt * (p10 + p01) + dt * dt * p11 + q * dt * dt * dt / 3,
+    p01 + dt * p11 + q * dt * dt / 2,
+    p10 + dt * p11 + q * dt * dt / 2,
+    p11 + q * dt
+  ];
+};
+
+const correctAxis = (f: AxisFilter, z: number) => {
+  const [p00, p01, p10, p11] = f.P;
+  const s = p00 + MEASUREMENT_NOISE;
+  const k0 = p00 / s;
+  const k1 = p10 / s;
+  const residual = z - f.p;
+  f.p += k0 * residual;
+  f.v += k1 * residual;
+  f.P = [(1 - k0) * p00, (1 - k0) * p01, p10 - k1 * p00, p11 - k1 * p01];
+};
+
+interface Track {
+  id: number;
+  x: AxisFilter;
+  y: AxisFilter;
+  width: number;
+  height: number;
+  class: string;
+  score: number;
+  firstSeen: number;
+  lastSeen: number;
+  trail: Point[];
+}
+
+const trackBox = (t: Track): Detection['bbox'] => [
+  t.x.p - t.width / 2,
+  t.y.p - t.height / 2,
+  t.width,
+  t.height
+];
+
+const iou = (a: Detection['bbox'], b: Detection['bbox']) => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const inter = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a[2] * a[3] + b[2] * b[3] - inter;
+  return union > 0 ? inter / union : 0;
+};
+
+/**
+ * Associates per-frame detections into persistent tracks. Each track carries a
+ * Kalman motion model so that it can be matched again after occlusions of up
+ * to `maxCoastMs` (1.5 s by default); after that the person gets a new id.
+ */
+export const createTracker = (options: Partial<TrackerOptions> = {}) => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  let tracks: Track[] = [];
+  let nextId = 1;
+  let lastUpdate: number | null = null;
+
+  const update = (detections: Detection[], now: number): Detection[] => {
+    const dt = lastUpdate === null ? 0 : Math.min((now - lastUpdate) / 1000, 1);
+    lastUpdate = now;
+
+    tracks.forEach(t => {
+      predictAxis(t.x, dt);
+      predictAxis(t.y, dt);
+    });
+
+    // Score every plausible pair, then associate greedily from the best match down
+    const candidates: { track: Track; index: number; score: number }[] = [];
+    tracks.forEach(track => {
+      const predicted = trackBox(track);
+      const diagonal = Math.hypot(track.width, track.height);
+      detections.forEach((d, index) => {
+        if (d.class !== track.class) return;
+        const overlap = iou(predicted, d.bbox);
+        if (overlap >= opts.iouThreshold) {
+          candidates.push({ track, index, score: 1 + overlap });
+          return;
+        }
+        const cx = d.bbox[0] + d.bbox[2] / 2;
+        const cy = d.bbox[1] + d.bbox[3] / 2;
+        const distance = Math.hypot(cx - track.x.p, cy - track.y.p) / diagonal;
+        if (distance <= opts.maxCentroidDistance) {
+          candidates.push({ track, index, score: 1 - distance });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assigned = new Map<number, Track>();
+    const matchedTracks = new Set<Track>();
+    candidates.forEach(({ track, index }) => {
+      if (assigned.has(index) || matchedTracks.has(track)) return;
+      assigned.set(index, track);
+      matchedTracks.add(track);
+    });
+
+    const output = detections.map((d, index) => {
+      const [bx, by, bw, bh] = d.bbox;
+      const cx = bx + bw / 2;
+      const cy = by + bh / 2;
+      let track = assigned.get(index);
+
+      if (track) {
+        correctAxis(track.x, cx);
+        correctAxis(track.y, cy);
+        track.width += (bw - track.width) * 0.5;
+        track.height += (bh - track.height) * 0.5;
+        track.score = d.score;
+        track.lastSeen = now;
+      } else {
+        track = {
+          id: nextId++,
+          x: createAxis(cx),
+          y: createAxis(cy),
+          width: bw,
+          height: bh,
+          class: d.class,
+          score: d.score,
+          firstSeen: now,
+          lastSeen: now,
+          trail: []
+        };
+        tracks.push(track);
+      }
+
+      track.trail.push({ x: cx, y: by + bh });
+      if (track.trail.length > opts.trailLength) track.trail.shift();
+
+      return {
+        ...d,
+        trackId: track.id,
+        age: now - track.firstSeen,
+        velocity: [track.x.v, track.y.v] as [number, number]
+      };
+    });
+
+    tracks = tracks.filter(t => now - t.lastSeen <= opts.maxCoastMs);
+    return output;
+  };
+
+  const getTrail = (trackId: number): Point[] =>
+    tracks.find(t => t.id === trackId)?.trail ?? [];
+
+  const reset = () => {
+    tracks = [];
+    nextId = 1;
+    lastUpdate = null;
+  };
+
+  return { update, getTrail, reset };
+};
+
+export type Tracker = ReturnType<typeof createTracker>;
+
+// Stable, well-spread colour per track ID
+export const trackColor = (trackId: number, alpha = 1) =>
+  `hsla(${(trackId * 137.508) % 360}, 80%, 55%, ${alpha})`;
@@ -0,0 +1,20 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { DetectorConfig } from '../types';
+import type { TilingOptions } from './tiling';
+
+// Messages between the UI thread and utils/detection.worker.ts
+
+export type WorkerRequest =
+  // Replaces the current detector; files are only sent for a newly chosen custom model
+  | { type: 'load'; requestId: number; config: DetectorConfig; files?: File[] }
+  // Frames older than maxAgeMs by the time the worker reaches them are dropped.
+  // With tiling, the frame is also detected tile by tile and the results merged.
+  | { type: 'detect'; requestId: number; sourceId: string; frame: ImageBitmap; capturedAt: number; maxAgeMs?: number; tiling?: TilingOptions };
+
+export type WorkerResponse =
+  | { type: 'loaded'; requestId: number; backend: string; cached: boolean }
+  | { type: 'load-error'; requestId: number; message: string }
+  | { type: 'result'; requestId: number; sourceId: string; predictions: DetectedObject[]; inferenceMs: number }
+  // A newer frame for the same source arrived, or the frame waited too long
+  | { type: 'dropped'; requestId: number; sourceId: string }
+  | { type: 'error'; requestId: number; sourceId: string; message: string };
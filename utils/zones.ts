@@ -0,0 +1,20 @@
+import { Detection, Zone } from '../types';
+import { footPoint, pointInPolygon } from './geometry';
+
+export const ZONE_COLORS = ['#3b82f6', '#a855f7', '#ec4899', '#06b6d4', '#f97316', '#84cc16'];
+
+// A person belongs to every zone that contains the foot point of their bbox
+export const isInZone = (detection: Detection, zone: Zone) =>
+  zone.points.length >= 3 && pointInPolygon(footPoint(detection.bbox), zone.points);
+
+export const countByZone = (detections: Detection[], zones: Zone[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  zones.forEach(zone => {
+    counts[zone.id] = detections.filter(d => isInZone(d, zone)).length;
+  });
+  return counts;
+};
+
+// Zones whose own threshold is currently met
+export const zonesInAlert = (zones: Zone[], counts: Record<string, number>) =>
+  zones.filter(zone => (counts[zone.id] ?? 0) >= zone.threshold);
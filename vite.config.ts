@@ -1,7 +1,29 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { spawn } from 'child_process';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Runs the local API server (scripts/api-server.mjs, see docs/local-api.md) for as long as
+// the dev server runs, accepting the app from the port Vite serves it on. LOCAL_API=0 skips it.
+const localApiServer = (): Plugin => ({
+  name: 'dx-local-api',
+  apply: 'serve',
+  configureServer(server) {
+    if (process.env.LOCAL_API === '0') return;
+    const port = server.config.server.port ?? 3000;
+    const child = spawn(process.execPath, [path.resolve(__dirname, 'scripts/api-server.mjs')], {
+      stdio: 'inherit',
+      env: { APP_ORIGINS: `http://localhost:${port},http://127.0.0.1:${port}`, ...process.env }
+    });
+    child.on('exit', (code) => {
+      if (code) server.config.logger.warn(`Local API server exited with code ${code}; the app can't publish counts`);
+    });
+    const stop = () => child.kill();
+    server.httpServer?.on('close', stop);
+    process.on('exit', stop);
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +31,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localApiServer()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)